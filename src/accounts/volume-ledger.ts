@@ -0,0 +1,146 @@
+/**
+ * Volume Ledger
+ * 
+ * Records executed notional per venue/account and reports traded volume over
+ * a rolling window. Calculators use that volume to pick the applicable
+ * VolumeTier from the fee schedule (or the account's negotiated tiers).
+ */
+
+import type { Venue, VolumeTier } from '../types';
+import { InvalidParamsError } from '../errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VolumeRecord {
+  venue: Venue;
+  /** Executed notional in USD */
+  notional_usd: number;
+  /** Account the fill belongs to (omit for a single-account setup) */
+  account_id?: string;
+  /** Execution time (ISO 8601), defaults to now */
+  executed_at?: string;
+}
+
+export interface VolumeLedgerConfig {
+  /** Rolling window length in days (default 30) */
+  windowDays?: number;
+}
+
+/**
+ * Result of matching a traded volume against a tier ladder
+ */
+export interface VolumeTierSelection {
+  /** Tier that applies at this volume */
+  tier: VolumeTier;
+  /** Zero-based index of the tier in the ladder */
+  index: number;
+  /** Next tier up (if any) */
+  next?: VolumeTier;
+  /** Additional volume needed to reach the next tier */
+  distance_to_next_usd?: number;
+}
+
+interface LedgerEntry {
+  notional_usd: number;
+  executed_at_ms: number;
+}
+
+export class VolumeLedger {
+  readonly windowDays: number;
+  private entries: Map<string, LedgerEntry[]> = new Map();
+  
+  constructor(config?: VolumeLedgerConfig) {
+    this.windowDays = config?.windowDays ?? 30;
+  }
+  
+  private key(venue: Venue, accountId?: string): string {
+    return `${venue}:${accountId ?? ''}`;
+  }
+  
+  /**
+   * Record an executed fill
+   */
+  record(record: VolumeRecord): void {
+    if (!(record.notional_usd > 0)) return;
+    
+    const executedAt = record.executed_at ? Date.parse(record.executed_at) : Date.now();
+    if (Number.isNaN(executedAt)) {
+      throw new InvalidParamsError(`Invalid executed_at timestamp: ${record.executed_at}`, 'executed_at');
+    }
+    
+    const key = this.key(record.venue, record.account_id);
+    const list = this.entries.get(key) ?? [];
+    list.push({ notional_usd: record.notional_usd, executed_at_ms: executedAt });
+    this.entries.set(key, list);
+  }
+  
+  /**
+   * Traded volume inside the rolling window ending at `asOf`
+   */
+  getVolume(venue: Venue, accountId?: string, asOf: Date = new Date()): number {
+    const list = this.entries.get(this.key(venue, accountId));
+    if (!list) return 0;
+    
+    const end = asOf.getTime();
+    const start = end - this.windowDays * DAY_MS;
+    
+    return list
+      .filter(e => e.executed_at_ms > start && e.executed_at_ms <= end)
+      .reduce((sum, e) => sum + e.notional_usd, 0);
+  }
+  
+  /**
+   * Drop entries that have aged out of the window
+   */
+  prune(asOf: Date = new Date()): void {
+    const start = asOf.getTime() - this.windowDays * DAY_MS;
+    for (const [key, list] of this.entries) {
+      const kept = list.filter(e => e.executed_at_ms > start);
+      if (kept.length > 0) {
+        this.entries.set(key, kept);
+      } else {
+        this.entries.delete(key);
+      }
+    }
+  }
+  
+  /**
+   * Remove all recorded volume
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Pick the tier for a traded volume
+ * 
+ * The applicable tier is the one with the highest `min_volume_usd` that the
+ * volume has reached. Returns undefined for an empty ladder or when the
+ * volume is below every threshold (base schedule rates apply).
+ */
+export function selectVolumeTier(
+  tiers: VolumeTier[],
+  volumeUsd: number
+): VolumeTierSelection | undefined {
+  const sorted = [...tiers].sort((a, b) => a.min_volume_usd - b.min_volume_usd);
+  
+  let index = -1;
+  for (let i = 0; i < sorted.length; i++) {
+    if (volumeUsd >= sorted[i]!.min_volume_usd) {
+      index = i;
+    }
+  }
+  
+  if (index === -1) return undefined;
+  
+  const tier = sorted[index]!;
+  const next = sorted[index + 1];
+  
+  return {
+    tier,
+    index,
+    next,
+    distance_to_next_usd: next ? Math.max(0, next.min_volume_usd - volumeUsd) : undefined,
+  };
+}
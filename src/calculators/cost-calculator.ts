@@ -4,7 +4,8 @@
  * Calculates implicit trading costs (spread, slippage) from orderbook data.
  */
 
-import type { OrderbookSnapshot } from '../types';
+import type { OrderbookSnapshot, Outcome } from '../types';
+import { orderbookForOutcome } from '../orderbook';
 
 export interface SpreadSlippageResult {
   spread_cost_usd: number;
@@ -12,6 +13,14 @@ export interface SpreadSlippageResult {
   effective_price: number;
   price_impact_pct: number;
   levels_consumed: number;
+  /** Size beyond the visible book (priced at the last level) */
+  unfilled_usd: number;
+  /** Contracts beyond the visible book */
+  unfilled_contracts: number;
+  /** Contracts bought/sold, including any unfilled remainder */
+  contracts: number;
+  /** USD spent/received at the walked prices, including any unfilled remainder */
+  notional_usd: number;
 }
 
 /**
@@ -19,13 +28,15 @@ export interface SpreadSlippageResult {
  * 
  * For a BUY: you pay the ask price, fair value is mid → cost = (ask - mid) * size
  * For a SELL: you receive the bid price, fair value is mid → cost = (mid - bid) * size
+ * (in the traded outcome's prices)
  */
 export function calculateSpreadCost(
   orderbook: OrderbookSnapshot,
   sizeUsd: number,
-  side: 'BUY' | 'SELL'
+  side: 'BUY' | 'SELL',
+  outcome: Outcome = orderbook.outcome
 ): number {
-  const { mid_price, best_bid, best_ask } = orderbook;
+  const { mid_price, best_bid, best_ask } = orderbookForOutcome(orderbook, outcome);
   
   if (side === 'BUY') {
     // Pay the ask, fair value is mid
@@ -45,52 +56,130 @@ export function calculateSpreadCost(
  * Calculate slippage by walking the orderbook
  * 
  * For large orders that consume multiple levels, the average execution price
- * will be worse than the best bid/ask.
+ * will be worse than the best bid/ask. `outcome` is the outcome traded; a
+ * book quoted in the other outcome is inverted first (default: the book's own).
+ * A `limitPrice` stops the walk there and leaves the rest unfilled.
  */
 export function calculateSlippage(
-  orderbook: OrderbookSnapshot,
+  book: OrderbookSnapshot,
   sizeUsd: number,
-  side: 'BUY' | 'SELL'
+  side: 'BUY' | 'SELL',
+  outcome: Outcome = book.outcome,
+  limitPrice?: number
+): SpreadSlippageResult {
+  return walkOrderbook(book, { usd: sizeUsd }, side, outcome, limitPrice);
+}
+
+/**
+ * Calculate slippage for a size given in contracts
+ * 
+ * Same walk as calculateSlippage, but fills a fixed number of contracts, so
+ * the USD notional comes out of the book instead of going in.
+ */
+export function calculateSlippageByContracts(
+  book: OrderbookSnapshot,
+  contracts: number,
+  side: 'BUY' | 'SELL',
+  outcome: Outcome = book.outcome,
+  limitPrice?: number
+): SpreadSlippageResult {
+  return walkOrderbook(book, { contracts }, side, outcome, limitPrice);
+}
+
+/**
+ * Walk one side of the book until `target` (USD or contracts) is filled
+ * 
+ * With a `limitPrice` only levels at or better than it are taken and the
+ * remainder is left unfilled (converted at the limit price) instead of being
+ * priced at the last level; `contracts` and `notional_usd` then cover the
+ * crossed part only.
+ */
+function walkOrderbook(
+  book: OrderbookSnapshot,
+  target: { usd: number } | { contracts: number },
+  side: 'BUY' | 'SELL',
+  outcome: Outcome,
+  limitPrice?: number
 ): SpreadSlippageResult {
-  // Get relevant side of book
-  const levels = side === 'BUY'
+  const orderbook = orderbookForOutcome(book, outcome);
+  const byContracts = 'contracts' in target;
+  
+  // Get relevant side of book (within the limit, if any)
+  const levels = (side === 'BUY'
     ? orderbook.levels.filter(l => l.side === 'ASK').sort((a, b) => a.price - b.price)
-    : orderbook.levels.filter(l => l.side === 'BID').sort((a, b) => b.price - a.price);
+    : orderbook.levels.filter(l => l.side === 'BID').sort((a, b) => b.price - a.price)
+  ).filter(l => limitPrice === undefined || (side === 'BUY' ? l.price <= limitPrice + 1e-9 : l.price >= limitPrice - 1e-9));
+
+  if (levels.length === 0 && limitPrice !== undefined) {
+    // Nothing crosses: the whole order rests
+    return {
+      spread_cost_usd: 0,
+      slippage_usd: 0,
+      effective_price: limitPrice,
+      price_impact_pct: 0,
+      levels_consumed: 0,
+      unfilled_usd: byContracts ? target.contracts * limitPrice : target.usd,
+      unfilled_contracts: byContracts ? target.contracts : target.usd / limitPrice,
+      contracts: 0,
+      notional_usd: 0,
+    };
+  }
 
   if (levels.length === 0) {
+    const price = side === 'BUY' ? orderbook.best_ask : orderbook.best_bid;
+    const contracts = byContracts ? target.contracts : price > 0 ? target.usd / price : 0;
+    const notionalUsd = byContracts ? target.contracts * price : target.usd;
     return {
       spread_cost_usd: 0,
       slippage_usd: 0,
-      effective_price: side === 'BUY' ? orderbook.best_ask : orderbook.best_bid,
+      effective_price: price,
       price_impact_pct: 0,
       levels_consumed: 0,
+      unfilled_usd: notionalUsd,
+      unfilled_contracts: contracts,
+      contracts,
+      notional_usd: notionalUsd,
     };
   }
 
   const bestPrice = levels[0]!.price;
-  let remainingUsd = sizeUsd;
+  // Remaining size, in the target's unit
+  let remaining = byContracts ? target.contracts : target.usd;
   let totalContracts = 0;
   let weightedPriceSum = 0;
   let levelsConsumed = 0;
 
   for (const level of levels) {
-    if (remainingUsd <= 0) break;
+    if (remaining <= 0) break;
 
-    // How much USD can we fill at this level?
-    const levelValueUsd = level.price * level.size;
-    const fillUsd = Math.min(remainingUsd, levelValueUsd);
-    const fillContracts = fillUsd / level.price;
+    // How much can we fill at this level?
+    let fillContracts: number;
+    if (byContracts) {
+      fillContracts = Math.min(remaining, level.size);
+      remaining -= fillContracts;
+    } else {
+      const fillUsd = Math.min(remaining, level.price * level.size);
+      fillContracts = fillUsd / level.price;
+      remaining -= fillUsd;
+    }
 
     weightedPriceSum += level.price * fillContracts;
     totalContracts += fillContracts;
-    remainingUsd -= fillUsd;
     levelsConsumed++;
   }
 
-  // If we couldn't fill the entire order, use the last level's price for the rest
-  if (remainingUsd > 0 && levels.length > 0) {
-    const lastPrice = levels[levels.length - 1]!.price;
-    const remainingContracts = remainingUsd / lastPrice;
+  // If we couldn't fill the entire order, use the last level's price for the
+  // rest (a limit order leaves it resting at the limit price instead)
+  const lastPrice = levels[levels.length - 1]!.price;
+  const remainderPrice = limitPrice ?? lastPrice;
+  let unfilledUsd = 0;
+  let unfilledContracts = 0;
+  if (remaining > 1e-9) {
+    unfilledContracts = byContracts ? remaining : remaining / remainderPrice;
+    unfilledUsd = byContracts ? remaining * remainderPrice : remaining;
+  }
+  if (remaining > 0 && limitPrice === undefined) {
+    const remainingContracts = byContracts ? remaining : remaining / lastPrice;
     weightedPriceSum += lastPrice * remainingContracts;
     totalContracts += remainingContracts;
   }
@@ -117,6 +206,114 @@ export function calculateSlippage(
     effective_price: effectivePrice,
     price_impact_pct: priceImpactPct,
     levels_consumed: levelsConsumed,
+    unfilled_usd: unfilledUsd,
+    unfilled_contracts: unfilledContracts,
+    contracts: totalContracts,
+    notional_usd: byContracts || limitPrice !== undefined ? weightedPriceSum : target.usd,
+  };
+}
+
+/**
+ * Expected fraction of a resting order that fills, given the contracts
+ * queued ahead of it at its price and its own size
+ */
+export type FillProbabilityCurve = (queueAheadContracts: number, sizeContracts: number) => number;
+
+export interface PassiveOrderModel {
+  /** Fill curve (default: exponentialFillCurve over expected_touch_volume_contracts) */
+  fill_probability?: FillProbabilityCurve;
+  /** Mean contracts traded at the touch while the order rests, for the default curve (default 1000) */
+  expected_touch_volume_contracts?: number;
+  /** Expected move against a filled maker, as a fraction of the spread (default 0.25) */
+  adverse_selection_spread_fraction?: number;
+}
+
+export interface PassiveOrderResult {
+  /** Price the order rests at (the touch on its own side) */
+  limit_price: number;
+  /** Contracts resting ahead of the order at that price */
+  queue_ahead_contracts: number;
+  expected_fill_ratio: number;
+  expected_filled_contracts: number;
+  unfilled_contracts: number;
+  /** Filled contracts × (limit - mid) for a BUY; negative = half-spread earned */
+  spread_cost_usd: number;
+  /** Filled contracts × adverse move */
+  adverse_selection_usd: number;
+  /** Unfilled contracts crossing the half-spread later (fees excluded) */
+  opportunity_cost_usd: number;
+}
+
+/**
+ * Fill curve for touch volume that is exponentially distributed with mean
+ * `expectedVolumeContracts`: the order fills once the queue ahead has traded,
+ * so the expected fill ratio is E[min(max(V - Q, 0), S)] / S.
+ */
+export function exponentialFillCurve(expectedVolumeContracts: number): FillProbabilityCurve {
+  return (queueAhead, size) => {
+    if (size <= 0) return 1;
+    if (expectedVolumeContracts <= 0) return 0;
+    const v = expectedVolumeContracts;
+    return (v / size) * (Math.exp(-queueAhead / v) - Math.exp(-(queueAhead + size) / v));
+  };
+}
+
+/**
+ * Expected implicit cost of a passive (resting) limit order
+ * 
+ * By default the order joins the back of the queue at the best price on its
+ * own side (best bid for a BUY), or rests at mid when that side is empty; a
+ * `limitPrice` rests it there instead, behind every order at that price or
+ * better. Filled contracts earn (or pay) the distance to mid and lose the
+ * adverse-selection move; unfilled contracts are assumed to cross later at
+ * the first opposite level beyond the limit, so the result compares with a
+ * taker order for the same size.
+ */
+export function calculatePassiveOrderCost(
+  book: OrderbookSnapshot,
+  sizeContracts: number,
+  side: 'BUY' | 'SELL',
+  outcome: Outcome = book.outcome,
+  model: PassiveOrderModel = {},
+  limitPrice?: number
+): PassiveOrderResult {
+  const orderbook = orderbookForOutcome(book, outcome);
+  const ownSide = side === 'BUY' ? 'BID' : 'ASK';
+  const ownLevels = orderbook.levels.filter(l => l.side === ownSide);
+  const touch = side === 'BUY' ? orderbook.best_bid : orderbook.best_ask;
+  
+  const restPrice = limitPrice ?? (ownLevels.length > 0 ? touch : orderbook.mid_price);
+  const queueAhead = ownLevels
+    .filter(l => (side === 'BUY' ? l.price >= restPrice - 1e-9 : l.price <= restPrice + 1e-9))
+    .reduce((sum, l) => sum + l.size, 0);
+  
+  // Crossing later takes the first opposite level the limit did not reach
+  const beyond = orderbook.levels
+    .filter(l => l.side !== ownSide && (side === 'BUY' ? l.price > restPrice + 1e-9 : l.price < restPrice - 1e-9))
+    .map(l => l.price);
+  const crossPrice = beyond.length > 0
+    ? (side === 'BUY' ? Math.min(...beyond) : Math.max(...beyond))
+    : (side === 'BUY' ? orderbook.best_ask : orderbook.best_bid);
+  
+  const curve = model.fill_probability ?? exponentialFillCurve(model.expected_touch_volume_contracts ?? 1000);
+  const fillRatio = Math.min(1, Math.max(0, curve(queueAhead, sizeContracts)));
+  const filled = sizeContracts * fillRatio;
+  const unfilled = sizeContracts - filled;
+  
+  const mid = orderbook.mid_price;
+  const spread = Math.max(0, orderbook.best_ask - orderbook.best_bid);
+  const edgePerContract = side === 'BUY' ? restPrice - mid : mid - restPrice;
+  const crossPerContract = side === 'BUY' ? crossPrice - mid : mid - crossPrice;
+  
+  return {
+    limit_price: restPrice,
+    queue_ahead_contracts: queueAhead,
+    expected_fill_ratio: fillRatio,
+    expected_filled_contracts: filled,
+    unfilled_contracts: unfilled,
+    spread_cost_usd: filled * edgePerContract,
+    adverse_selection_usd: filled * spread * (model.adverse_selection_spread_fraction ?? 0.25),
+    opportunity_cost_usd: unfilled * Math.max(0, crossPerContract),
   };
 }
 
@@ -0,0 +1,148 @@
+/**
+ * Execution Schedule Simulator
+ *
+ * Walks a sliced order (TWAP, iceberg) through one orderbook snapshot whose
+ * consumed depth refills between slices, so worked orders can be compared
+ * with a single sweep of the same book.
+ */
+
+import type { OrderbookSnapshot, OrderbookLevel, Outcome } from '../types';
+import { buildOrderbookSnapshot, orderbookForOutcome } from '../orderbook';
+import { InvalidParamsError } from '../errors';
+import { calculateSlippage, calculateSlippageByContracts } from './cost-calculator';
+
+/**
+ * How fast consumed depth comes back
+ *
+ * Consumed size at every level refills exponentially: after `half_life_ms`
+ * half of it is back. 0 = refills instantly, Infinity = never refills.
+ */
+export interface ResiliencyModel {
+  half_life_ms: number;
+}
+
+/**
+ * One simulated child order, measured against the original book
+ */
+export interface SimulatedSlice {
+  index: number;
+  /** Time since the first slice */
+  offset_ms: number;
+  contracts: number;
+  notional_usd: number;
+  effective_price: number;
+  /** (original touch - original mid) × contracts */
+  spread_cost_usd: number;
+  /** (effective price - original touch) × contracts, including depth not yet refilled */
+  slippage_usd: number;
+  levels_consumed: number;
+  /** Size beyond the depleted book (priced at its last level) */
+  unfilled_usd: number;
+}
+
+/**
+ * Walk `slices` equal child orders `intervalMs` apart
+ *
+ * `size` is the total, in USD or contracts. Each slice walks the depleted
+ * book (calculateSlippage), its fills are removed level by level, and the
+ * removed size refills per `resiliency` before the next slice.
+ */
+export function simulateExecutionSchedule(
+  book: OrderbookSnapshot,
+  size: { usd: number } | { contracts: number },
+  side: 'BUY' | 'SELL',
+  slices: number,
+  intervalMs: number,
+  resiliency: ResiliencyModel,
+  outcome: Outcome = book.outcome
+): SimulatedSlice[] {
+  const orderbook = orderbookForOutcome(book, outcome);
+  const walkedSide = side === 'BUY' ? 'ASK' : 'BID';
+  const levels = orderbook.levels
+    .filter(l => l.side === walkedSide)
+    .sort((a, b) => (side === 'BUY' ? a.price - b.price : b.price - a.price));
+  const others = orderbook.levels.filter(l => l.side !== walkedSide);
+  const touch = side === 'BUY' ? orderbook.best_ask : orderbook.best_bid;
+  const mid = orderbook.mid_price;
+
+  const consumed = levels.map(() => 0);
+  const refill = resiliency.half_life_ms <= 0 ? 0 : Math.exp(-Math.LN2 * intervalMs / resiliency.half_life_ms);
+  const sliceSize = 'usd' in size ? size.usd / slices : size.contracts / slices;
+  const result: SimulatedSlice[] = [];
+
+  for (let index = 0; index < slices; index++) {
+    if (index > 0) {
+      for (let i = 0; i < consumed.length; i++) consumed[i]! *= refill;
+    }
+
+    // Book as this slice finds it
+    const remaining: OrderbookLevel[] = levels
+      .map((l, i) => ({ ...l, size: l.size - consumed[i]! }))
+      .filter(l => l.size > 1e-9);
+    const bids = side === 'BUY' ? others : remaining;
+    const asks = side === 'BUY' ? remaining : others;
+    const current = buildOrderbookSnapshot(orderbook.venue, orderbook.market_id, orderbook.timestamp, bids, asks, orderbook.outcome);
+
+    const walk = 'usd' in size
+      ? calculateSlippage(current, sliceSize, side)
+      : calculateSlippageByContracts(current, sliceSize, side);
+
+    // Remove this slice's fills from the book
+    let toRemove = walk.contracts - walk.unfilled_contracts;
+    for (let i = 0; i < levels.length && toRemove > 1e-9; i++) {
+      const take = Math.min(levels[i]!.size - consumed[i]!, toRemove);
+      if (take <= 0) continue;
+      consumed[i]! += take;
+      toRemove -= take;
+    }
+
+    const edge = side === 'BUY' ? 1 : -1;
+    result.push({
+      index,
+      offset_ms: index * intervalMs,
+      contracts: walk.contracts,
+      notional_usd: walk.notional_usd,
+      effective_price: walk.effective_price,
+      spread_cost_usd: Math.max(0, edge * (touch - mid)) * walk.contracts,
+      slippage_usd: Math.max(0, edge * (walk.effective_price - touch)) * walk.contracts,
+      levels_consumed: walk.levels_consumed,
+      unfilled_usd: walk.unfilled_usd,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Fit a resiliency half-life from recorded snapshots of one market
+ *
+ * Treats the depth a `side` order consumes (asks for a BUY) as mean
+ * reverting: the lag-1 autocorrelation ρ of its deviations from the mean,
+ * over the average snapshot spacing Δt, gives half-life = -ln 2 · Δt / ln ρ.
+ */
+export function calibrateResiliency(snapshots: OrderbookSnapshot[], side: 'BUY' | 'SELL'): ResiliencyModel {
+  if (snapshots.length < 3) {
+    throw new InvalidParamsError('At least 3 snapshots are needed to calibrate resiliency', 'calibration_snapshots');
+  }
+  const sorted = [...snapshots].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const spanMs = Date.parse(sorted[sorted.length - 1]!.timestamp) - Date.parse(sorted[0]!.timestamp);
+  if (!(spanMs > 0)) {
+    throw new InvalidParamsError('Calibration snapshots must have distinct, valid timestamps', 'calibration_snapshots');
+  }
+  const stepMs = spanMs / (sorted.length - 1);
+
+  const depths = sorted.map(s => (side === 'BUY' ? s.ask_depth_usd : s.bid_depth_usd));
+  const mean = depths.reduce((sum, d) => sum + d, 0) / depths.length;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < depths.length - 1; i++) {
+    covariance += (depths[i]! - mean) * (depths[i + 1]! - mean);
+    variance += (depths[i]! - mean) ** 2;
+  }
+
+  // Flat or anti-correlated depth: gaps close within one snapshot
+  if (variance === 0 || covariance <= 0) return { half_life_ms: 0 };
+  const rho = covariance / variance;
+  if (rho >= 1) return { half_life_ms: Infinity };
+  return { half_life_ms: (-Math.LN2 * stepMs) / Math.log(rho) };
+}
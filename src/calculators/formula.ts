@@ -0,0 +1,357 @@
+/**
+ * Formula-Driven Fee Calculator
+ * 
+ * Evaluates fee rules declared in schedule JSON instead of code:
+ *   bps_of_notional:          fee = notional × bps / 10000
+ *   probability_coefficient:  fee = coefficient × contracts × P × (1-P)
+ *   per_contract:             fee = fee_per_contract_usd × contracts
+ * with optional min/max caps per trade.
+ * 
+ * Definitions are validated on construction, so adding or updating a venue
+ * is a data change that fails loudly when the JSON is malformed.
+ */
+
+import { BaseFeeCalculator, type FeeEstimateContext } from './interface';
+import type { FeeEstimate, FeeEstimateParams, FeeSchedule, Venue, VolumeTier } from '../types';
+import { SUPPORTED_VENUES } from '../types';
+import { ScheduleHistory } from '../schedules/history';
+import { InvalidScheduleError } from '../errors';
+
+export type FeeRule =
+  | { type: 'bps_of_notional'; bps: number }
+  | { type: 'probability_coefficient'; coefficient: number }
+  | { type: 'per_contract'; fee_per_contract_usd: number };
+
+export type FeeRuleType = FeeRule['type'];
+
+/**
+ * Maker/taker rules plus per-trade caps
+ */
+export interface FeeRuleSet {
+  taker: FeeRule;
+  maker: FeeRule;
+  /** Minimum fee per trade in USD */
+  min_fee_usd?: number;
+  /** Maximum fee per trade in USD */
+  max_fee_usd?: number;
+}
+
+/**
+ * Schedule JSON accepted by FormulaFeeCalculator
+ */
+export interface FormulaScheduleDefinition {
+  venue: Venue;
+  version: string;
+  updated_at: string;
+  /** When this version takes effect (default: updated_at) */
+  effective_from?: string;
+  source: string;
+  source_url: string;
+  disclaimer: string;
+  fee_rules: FeeRuleSet;
+  volume_tiers?: VolumeTier[];
+}
+
+/**
+ * Inputs a fee rule is evaluated against
+ */
+export interface FeeRuleInputs {
+  notional_usd: number;
+  contracts: number;
+  price: number;
+}
+
+const RULE_PARAMETER: Record<FeeRuleType, string> = {
+  bps_of_notional: 'bps',
+  probability_coefficient: 'coefficient',
+  per_contract: 'fee_per_contract_usd',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate a single fee rule, returning one message per problem
+ */
+export function validateFeeRule(rule: unknown, path: string): string[] {
+  if (!isRecord(rule)) {
+    return [`${path}: must be an object`];
+  }
+  
+  const type = rule.type;
+  if (typeof type !== 'string' || !(type in RULE_PARAMETER)) {
+    return [`${path}.type: must be one of ${Object.keys(RULE_PARAMETER).join(', ')}`];
+  }
+  
+  const parameter = RULE_PARAMETER[type as FeeRuleType];
+  if (!isNonNegativeNumber(rule[parameter])) {
+    return [`${path}.${parameter}: must be a non-negative number`];
+  }
+  
+  return [];
+}
+
+/**
+ * Validate a schedule definition against the formula schema
+ * 
+ * Returns an empty list when the definition is valid.
+ */
+export function validateScheduleDefinition(input: unknown): string[] {
+  if (!isRecord(input)) {
+    return ['schedule: must be an object'];
+  }
+  
+  const errors: string[] = [];
+  
+  if (!SUPPORTED_VENUES.includes(input.venue as Venue)) {
+    errors.push(`venue: must be one of ${SUPPORTED_VENUES.join(', ')}`);
+  }
+  for (const field of ['version', 'updated_at', 'source', 'source_url', 'disclaimer']) {
+    if (typeof input[field] !== 'string') {
+      errors.push(`${field}: must be a string`);
+    }
+  }
+  if (typeof input.updated_at === 'string' && Number.isNaN(Date.parse(input.updated_at))) {
+    errors.push('updated_at: must be an ISO 8601 timestamp');
+  }
+  if (
+    input.effective_from !== undefined &&
+    (typeof input.effective_from !== 'string' || Number.isNaN(Date.parse(input.effective_from)))
+  ) {
+    errors.push('effective_from: must be an ISO 8601 timestamp');
+  }
+  
+  const rules = input.fee_rules;
+  if (!isRecord(rules)) {
+    errors.push('fee_rules: must be an object');
+  } else {
+    errors.push(...validateFeeRule(rules.taker, 'fee_rules.taker'));
+    errors.push(...validateFeeRule(rules.maker, 'fee_rules.maker'));
+    
+    for (const cap of ['min_fee_usd', 'max_fee_usd']) {
+      if (rules[cap] !== undefined && !isNonNegativeNumber(rules[cap])) {
+        errors.push(`fee_rules.${cap}: must be a non-negative number`);
+      }
+    }
+    if (
+      isNonNegativeNumber(rules.min_fee_usd) &&
+      isNonNegativeNumber(rules.max_fee_usd) &&
+      rules.min_fee_usd > rules.max_fee_usd
+    ) {
+      errors.push('fee_rules: min_fee_usd must not exceed max_fee_usd');
+    }
+  }
+  
+  if (input.volume_tiers !== undefined && input.volume_tiers !== null) {
+    if (!Array.isArray(input.volume_tiers)) {
+      errors.push('volume_tiers: must be an array');
+    } else {
+      input.volume_tiers.forEach((tier, i) => {
+        if (!isRecord(tier)) {
+          errors.push(`volume_tiers[${i}]: must be an object`);
+          return;
+        }
+        for (const field of ['min_volume_usd', 'maker_fee_bps', 'taker_fee_bps']) {
+          if (!isNonNegativeNumber(tier[field])) {
+            errors.push(`volume_tiers[${i}].${field}: must be a non-negative number`);
+          }
+        }
+      });
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Validate and return a typed schedule definition (throws on invalid input)
+ */
+export function parseScheduleDefinition(input: unknown): FormulaScheduleDefinition {
+  const errors = validateScheduleDefinition(input);
+  if (errors.length > 0) {
+    throw new InvalidScheduleError('Invalid fee schedule definition', errors);
+  }
+  return input as FormulaScheduleDefinition;
+}
+
+/**
+ * Evaluate a fee rule (before caps)
+ */
+export function evaluateFeeRule(rule: FeeRule, inputs: FeeRuleInputs): number {
+  switch (rule.type) {
+    case 'bps_of_notional':
+      return inputs.notional_usd * (rule.bps / 10000);
+    case 'probability_coefficient':
+      return rule.coefficient * inputs.contracts * inputs.price * (1 - inputs.price);
+    case 'per_contract':
+      return rule.fee_per_contract_usd * inputs.contracts;
+  }
+}
+
+/**
+ * Human-readable form of a rule for assumptions
+ */
+export function describeFeeRule(rule: FeeRule): string {
+  switch (rule.type) {
+    case 'bps_of_notional':
+      return `${rule.bps} bps of notional`;
+    case 'probability_coefficient':
+      return `${rule.coefficient} × C × P × (1-P)`;
+    case 'per_contract':
+      return `$${rule.fee_per_contract_usd} per contract`;
+  }
+}
+
+/**
+ * Clamp a fee to the rule set's min/max caps
+ */
+export function applyFeeCaps(fee: number, rules: FeeRuleSet): number {
+  let capped = fee;
+  if (rules.max_fee_usd !== undefined) capped = Math.min(capped, rules.max_fee_usd);
+  if (rules.min_fee_usd !== undefined) capped = Math.max(capped, rules.min_fee_usd);
+  return capped;
+}
+
+/**
+ * Replace a rule's rate with a tier/account override of the matching kind
+ * 
+ * Coefficients only override coefficient rules; bps override any rule
+ * (a negotiated bps rate replaces the formula entirely).
+ */
+function overrideRule(rule: FeeRule, coefficient?: number, bps?: number): FeeRule {
+  if (bps !== undefined) {
+    return { type: 'bps_of_notional', bps };
+  }
+  if (coefficient !== undefined && rule.type === 'probability_coefficient') {
+    return { type: 'probability_coefficient', coefficient };
+  }
+  return rule;
+}
+
+/**
+ * Headline bps for a rule (per $1 contract at P=0.50 for contract-based rules)
+ */
+export function approximateBps(rule: FeeRule): number {
+  let bps: number;
+  switch (rule.type) {
+    case 'bps_of_notional':
+      bps = rule.bps;
+      break;
+    case 'probability_coefficient':
+      bps = rule.coefficient * 0.25 * 10000;
+      break;
+    case 'per_contract':
+      bps = rule.fee_per_contract_usd * 10000;
+      break;
+  }
+  return Math.round(bps * 100) / 100;
+}
+
+/**
+ * Calculator driven entirely by a FormulaScheduleDefinition
+ */
+export class FormulaFeeCalculator extends BaseFeeCalculator {
+  readonly venue: Venue;
+  
+  private history: ScheduleHistory<FormulaScheduleDefinition>;
+  
+  constructor(definition: unknown) {
+    super();
+    const parsed = parseScheduleDefinition(definition);
+    this.venue = parsed.venue;
+    this.history = new ScheduleHistory(parsed.venue);
+    this.history.add(parsed.version, parsed.effective_from ?? parsed.updated_at, parsed);
+  }
+  
+  /**
+   * Add a dated schedule version (must be for the same venue)
+   */
+  addScheduleVersion(definition: unknown): void {
+    const parsed = parseScheduleDefinition(definition);
+    if (parsed.venue !== this.venue) {
+      throw new InvalidScheduleError(`Schedule for ${parsed.venue} cannot be added to the ${this.venue} calculator`);
+    }
+    this.history.add(parsed.version, parsed.effective_from ?? parsed.updated_at, parsed);
+  }
+  
+  async estimate(params: FeeEstimateParams, context?: FeeEstimateContext): Promise<FeeEstimate> {
+    const { value: definition, version, effective_from } = this.history.resolve(params.as_of);
+    const rules = definition.fee_rules;
+    const account = context?.account;
+    const isMarketOrder = params.order_type === 'MARKET';
+    const price = params.price ?? 0.5;
+    const { contracts, notional_usd: notionalUsd } = this.resolveSize(params);
+    
+    const assumptions: string[] = [`${isMarketOrder ? 'Taker' : 'Maker'} order`];
+    
+    let rule = isMarketOrder ? rules.taker : rules.maker;
+    
+    // Tier rates replace the base rule, account rates replace the tier
+    const tier = this.resolveVolumeTier(definition.volume_tiers ?? [], context, assumptions);
+    if (tier) {
+      rule = isMarketOrder
+        ? overrideRule(rule, tier.taker_coefficient, rule.type === 'bps_of_notional' ? tier.taker_fee_bps : undefined)
+        : overrideRule(rule, tier.maker_coefficient, rule.type === 'bps_of_notional' ? tier.maker_fee_bps : undefined);
+    }
+    if (account) {
+      rule = isMarketOrder
+        ? overrideRule(rule, account.taker_coefficient, account.taker_fee_bps)
+        : overrideRule(rule, account.maker_coefficient, account.maker_fee_bps);
+    }
+    
+    const rawFee = evaluateFeeRule(rule, { notional_usd: notionalUsd, contracts, price });
+    let exchangeFee = applyFeeCaps(rawFee, rules);
+    
+    assumptions.push(`Fee rule: ${describeFeeRule(rule)}`);
+    if (exchangeFee !== rawFee) {
+      assumptions.push(`Fee capped: $${rawFee.toFixed(4)} → $${exchangeFee.toFixed(4)}`);
+    }
+    
+    let rebate = 0;
+    if (account) {
+      ({ exchange_fee: exchangeFee, rebate } = this.applyAccountAdjustments(
+        account, isMarketOrder, notionalUsd, exchangeFee, assumptions
+      ));
+    }
+    
+    assumptions.push(`Fee: $${exchangeFee.toFixed(2)}`);
+    
+    return this.createEstimate(
+      params,
+      { exchange_fee: exchangeFee, rebate },
+      'high',
+      assumptions,
+      account ? 'ACCOUNT_SPECIFIC' : 'PUBLIC_SCHEDULE',
+      { version, effective_from }
+    );
+  }
+  
+  getSchedule(asOf?: string): FeeSchedule {
+    const { value: definition, effective_from } = this.history.resolve(asOf);
+    const { fee_rules: rules } = definition;
+    return {
+      venue: this.venue,
+      updated_at: definition.updated_at,
+      effective_from,
+      version: definition.version,
+      maker_fee_bps: approximateBps(rules.maker),
+      taker_fee_bps: approximateBps(rules.taker),
+      tiers: definition.volume_tiers,
+      source: definition.source,
+      source_url: definition.source_url,
+      disclaimer: definition.disclaimer,
+    };
+  }
+  
+  /**
+   * All loaded schedule versions, oldest first
+   */
+  getScheduleVersions(): FeeSchedule[] {
+    return this.history.list().map(v => this.getSchedule(v.effective_from));
+  }
+}
@@ -4,6 +4,21 @@
  * Prediction Markets: Kalshi, Polymarket
  */
 
-export { BaseFeeCalculator, type FeeCalculator } from './interface';
-export { KalshiFeeCalculator } from './kalshi';
-export { PolymarketFeeCalculator } from './polymarket';
+export { BaseFeeCalculator, type FeeCalculator, type FeeEstimateContext } from './interface';
+export { KalshiFeeCalculator, type KalshiMarketClassification, type KalshiScheduleDefinition } from './kalshi';
+export { PolymarketFeeCalculator, type PolymarketScheduleDefinition } from './polymarket';
+export {
+  FormulaFeeCalculator,
+  evaluateFeeRule,
+  describeFeeRule,
+  applyFeeCaps,
+  approximateBps,
+  validateFeeRule,
+  validateScheduleDefinition,
+  parseScheduleDefinition,
+  type FeeRule,
+  type FeeRuleType,
+  type FeeRuleSet,
+  type FeeRuleInputs,
+  type FormulaScheduleDefinition,
+} from './formula';
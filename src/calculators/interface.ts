@@ -4,7 +4,29 @@
  * All venue-specific calculators extend this.
  */
 
-import type { Venue, FeeEstimate, FeeEstimateParams, FeeSchedule, FeeBreakdown, Confidence, CostEstimateMode } from '../types';
+import type { Venue, FeeEstimate, FeeEstimateParams, FeeSchedule, FeeBreakdown, Confidence, CostEstimateMode, AccountVenueRates, VolumeTier, MarketMetadata, GasPriceQuote } from '../types';
+import { selectVolumeTier } from '../accounts/volume-ledger';
+import { InvalidParamsError } from '../errors';
+
+/**
+ * Extra context the oracle resolves before calling a calculator
+ */
+export interface FeeEstimateContext {
+  /** Account-specific rates for this venue (from a registered AccountFeeProfile) */
+  account?: AccountVenueRates;
+  
+  /** Traded volume over the rolling window (from the oracle's VolumeLedger) */
+  volume_usd?: number;
+  
+  /** Rolling window length the volume was measured over */
+  volume_window_days?: number;
+  
+  /** Venue metadata for the traded market (from the oracle's metadata provider) */
+  market?: MarketMetadata;
+  
+  /** Live gas price (from the oracle's GasPriceFeed); schedule averages apply without it */
+  gas_price?: GasPriceQuote;
+}
 
 /**
  * Fee calculator interface that all venue implementations must follow
@@ -16,12 +38,22 @@ export interface FeeCalculator {
   /**
    * Estimate fees for a trade
    */
-  estimate(params: FeeEstimateParams): Promise<FeeEstimate>;
+  estimate(params: FeeEstimateParams, context?: FeeEstimateContext): Promise<FeeEstimate>;
+  
+  /**
+   * Get the fee schedule for this venue (in force at `asOf`, default: latest)
+   */
+  getSchedule(asOf?: string): FeeSchedule;
+  
+  /**
+   * All dated schedule versions, oldest first (if the calculator keeps history)
+   */
+  getScheduleVersions?(): FeeSchedule[];
   
   /**
-   * Get the current fee schedule for this venue
+   * Add a dated schedule version (if the calculator keeps history)
    */
-  getSchedule(): FeeSchedule;
+  addScheduleVersion?(schedule: unknown): void;
 }
 
 /**
@@ -30,21 +62,104 @@ export interface FeeCalculator {
 export abstract class BaseFeeCalculator implements FeeCalculator {
   abstract readonly venue: Venue;
   
-  abstract estimate(params: FeeEstimateParams): Promise<FeeEstimate>;
-  abstract getSchedule(): FeeSchedule;
+  abstract estimate(params: FeeEstimateParams, context?: FeeEstimateContext): Promise<FeeEstimate>;
+  abstract getSchedule(asOf?: string): FeeSchedule;
+  
+  /**
+   * Trade size in both contracts and USD notional
+   * 
+   * Validated params carry both and are taken as-is. Otherwise contracts
+   * convert at `price` (notional = contracts × price), and a USD size gives
+   * 0 contracts outside (0, 1).
+   */
+  protected resolveSize(params: FeeEstimateParams): { contracts: number; notional_usd: number } {
+    const price = params.price ?? 0.5;
+    if (params.size_contracts !== undefined && params.size_usd !== undefined) {
+      return { contracts: params.size_contracts, notional_usd: params.size_usd };
+    }
+    if (params.size_contracts !== undefined) {
+      return { contracts: params.size_contracts, notional_usd: params.size_contracts * price };
+    }
+    if (params.size_usd === undefined) {
+      throw new InvalidParamsError('size_usd or size_contracts is required', 'size_usd');
+    }
+    return {
+      contracts: price > 0 && price < 1 ? params.size_usd / price : 0,
+      notional_usd: params.size_usd,
+    };
+  }
+  
+  /**
+   * Pick the volume tier for this trade
+   * 
+   * Uses the account's negotiated tiers if it has any, otherwise the
+   * schedule's tiers. Returns undefined when no volume is known.
+   */
+  protected resolveVolumeTier(
+    scheduleTiers: VolumeTier[],
+    context: FeeEstimateContext | undefined,
+    assumptions: string[]
+  ): VolumeTier | undefined {
+    if (context?.volume_usd === undefined) return undefined;
+    
+    const tiers = context.account?.volume_tiers ?? scheduleTiers;
+    const selection = selectVolumeTier(tiers, context.volume_usd);
+    if (!selection) return undefined;
+    
+    const window = context.volume_window_days ?? 30;
+    assumptions.push(
+      `Volume tier ${selection.index + 1}/${tiers.length} ($${context.volume_usd.toFixed(0)} ${window}d volume, ` +
+      `tier starts at $${selection.tier.min_volume_usd.toFixed(0)})`
+    );
+    if (selection.distance_to_next_usd !== undefined) {
+      assumptions.push(`$${selection.distance_to_next_usd.toFixed(0)} more volume to reach next tier`);
+    } else if (tiers.length > 1) {
+      assumptions.push(`Top volume tier reached`);
+    }
+    
+    return selection.tier;
+  }
+  
+  /**
+   * Apply account-level waivers and rebates on top of the computed exchange fee
+   * 
+   * Rate overrides (coefficients, bps) are venue-specific and handled by each
+   * calculator before calling this.
+   */
+  protected applyAccountAdjustments(
+    account: AccountVenueRates,
+    isMarketOrder: boolean,
+    sizeUsd: number,
+    exchangeFee: number,
+    assumptions: string[]
+  ): { exchange_fee: number; rebate: number } {
+    if (account.fee_waived) {
+      assumptions.push(`Account fee waiver: exchange fee $${exchangeFee.toFixed(2)} → $0.00`);
+      exchangeFee = 0;
+    }
+    
+    const rebateBps = isMarketOrder ? account.taker_rebate_bps : account.maker_rebate_bps;
+    const rebate = rebateBps ? sizeUsd * (rebateBps / 10000) : 0;
+    if (rebate > 0) {
+      assumptions.push(`Account ${isMarketOrder ? 'taker' : 'maker'} rebate: ${rebateBps} bps = $${rebate.toFixed(2)}`);
+    }
+    
+    return { exchange_fee: exchangeFee, rebate };
+  }
   
   /**
    * Create a fee estimate response
    * 
-   * Note: All estimates from static calculators are PUBLIC_SCHEDULE mode.
-   * For ACCOUNT_SPECIFIC mode, would need auth or explicit user-provided rates.
+   * Estimates are PUBLIC_SCHEDULE mode unless the calculator was given
+   * account-specific rates, in which case it passes ACCOUNT_SPECIFIC.
    */
   protected createEstimate(
     params: FeeEstimateParams,
     breakdown: Partial<FeeBreakdown>,
     confidence: Confidence,
     assumptions: string[],
-    mode: CostEstimateMode = 'PUBLIC_SCHEDULE'
+    mode: CostEstimateMode = 'PUBLIC_SCHEDULE',
+    schedule?: { version: string; effective_from: string }
   ): FeeEstimate {
     const exchangeFee = breakdown.exchange_fee ?? 0;
     const gasFee = breakdown.gas_fee ?? 0;
@@ -52,8 +167,9 @@ export abstract class BaseFeeCalculator implements FeeCalculator {
     const settlement = breakdown.settlement_fee ?? 0;
     const rebate = breakdown.rebate ?? 0;
     
+    const size = this.resolveSize(params);
     const totalFee = exchangeFee + gasFee + slippage + settlement - rebate;
-    const feePct = params.size_usd > 0 ? (totalFee / params.size_usd) * 100 : 0;
+    const feePct = size.notional_usd > 0 ? (totalFee / size.notional_usd) * 100 : 0;
     
     // Add mode disclaimer to assumptions
     const modeDisclaimer = mode === 'PUBLIC_SCHEDULE' 
@@ -62,7 +178,10 @@ export abstract class BaseFeeCalculator implements FeeCalculator {
     
     return {
       venue: this.venue,
-      size_usd: params.size_usd,
+      size_usd: size.notional_usd,
+      size_contracts: size.contracts,
+      outcome: params.outcome ?? 'YES',
+      account_id: params.account_id,
       total_fee_usd: totalFee,
       fee_pct: feePct,
       breakdown: {
@@ -74,8 +193,13 @@ export abstract class BaseFeeCalculator implements FeeCalculator {
       },
       confidence,
       mode,
-      assumptions: [modeDisclaimer, ...assumptions],
+      assumptions: schedule
+        ? [modeDisclaimer, `Schedule v${schedule.version} (effective ${schedule.effective_from})`, ...assumptions]
+        : [modeDisclaimer, ...assumptions],
       estimated_at: new Date().toISOString(),
+      schedule_version: schedule?.version,
+      schedule_effective_from: schedule?.effective_from,
+      as_of: params.as_of,
     };
   }
 }
@@ -9,23 +9,134 @@
  * Source: https://help.kalshi.com/trading/fees
  */
 
-import { BaseFeeCalculator } from './interface';
-import type { FeeEstimate, FeeEstimateParams, FeeSchedule } from '../types';
+import { BaseFeeCalculator, type FeeEstimateContext } from './interface';
+import { type FeeRule, approximateBps, validateFeeRule, validateScheduleDefinition } from './formula';
+import { ScheduleHistory } from '../schedules/history';
+import type { FeeEstimate, FeeEstimateParams, FeeSchedule, VolumeTier } from '../types';
 import kalshiSchedule from '../schedules/kalshi.json';
+import { InvalidScheduleError } from '../errors';
+
+/**
+ * Whether a Kalshi market charges the maker coefficient
+ */
+export interface KalshiMarketClassification {
+  /** Series ticker used for the lookup (if known) */
+  series_ticker?: string;
+  /** Category used for the lookup (if known) */
+  category?: string;
+  /** True for sports/macro markets that charge maker fees */
+  maker_fee_applies: boolean;
+  /** Which list entry matched */
+  matched_by?: 'series' | 'category';
+}
+
+export type KalshiScheduleDefinition = typeof kalshiSchedule;
+
+/**
+ * Coefficients and market lists compiled from one schedule version
+ */
+interface CompiledKalshiSchedule {
+  schedule: KalshiScheduleDefinition;
+  takerCoefficient: number;
+  makerCoefficientSpecial: number; // sports/macro markets
+  makerCoefficientDefault: number; // most markets
+  makerFeeSeries: Set<string>;
+  makerFeeCategories: Set<string>;
+}
 
 export class KalshiFeeCalculator extends BaseFeeCalculator {
   venue = 'KALSHI' as const;
   
-  private schedule: typeof kalshiSchedule;
-  
-  // Fee coefficients from Kalshi's published formula
-  private readonly TAKER_COEFFICIENT = 0.07;
-  private readonly MAKER_COEFFICIENT_SPECIAL = 0.0175; // sports/macro markets
-  private readonly MAKER_COEFFICIENT_DEFAULT = 0;      // most markets
+  // Dated schedule versions (fee_rules in kalshi.json)
+  private history = new ScheduleHistory<CompiledKalshiSchedule>('KALSHI');
   
   constructor() {
     super();
-    this.schedule = kalshiSchedule;
+    this.addScheduleVersion(kalshiSchedule);
+  }
+  
+  /**
+   * Add a dated schedule version
+   * 
+   * Estimates with `as_of` on or after `effective_from` use it until a later
+   * version takes effect.
+   */
+  addScheduleVersion(schedule: KalshiScheduleDefinition): void {
+    const errors = [
+      ...validateScheduleDefinition(schedule),
+      ...validateFeeRule(schedule.maker_fee_markets?.maker_rule, 'maker_fee_markets.maker_rule'),
+    ];
+    if (errors.length > 0) {
+      throw new InvalidScheduleError('Invalid Kalshi fee schedule', errors);
+    }
+    
+    this.history.add(schedule.version, schedule.effective_from ?? schedule.updated_at, {
+      schedule,
+      takerCoefficient: this.coefficientOf(schedule.fee_rules.taker, 'fee_rules.taker'),
+      makerCoefficientDefault: this.coefficientOf(schedule.fee_rules.maker, 'fee_rules.maker'),
+      makerCoefficientSpecial: this.coefficientOf(
+        schedule.maker_fee_markets.maker_rule,
+        'maker_fee_markets.maker_rule'
+      ),
+      makerFeeSeries: new Set(schedule.maker_fee_markets.series.map(s => s.toUpperCase())),
+      makerFeeCategories: new Set(schedule.maker_fee_markets.categories.map(c => c.toLowerCase())),
+    });
+  }
+  
+  /**
+   * Read the coefficient from a schedule rule
+   * 
+   * Kalshi's formula is coefficient-based, so any other rule type is a
+   * schedule error (use FormulaFeeCalculator for other models).
+   */
+  private coefficientOf(rule: { type: string }, path: string): number {
+    const feeRule = rule as FeeRule;
+    if (feeRule.type !== 'probability_coefficient') {
+      throw new InvalidScheduleError(`Invalid Kalshi fee schedule: ${path}.type must be probability_coefficient`);
+    }
+    return feeRule.coefficient;
+  }
+  
+  /**
+   * Classify a market against the schedule's maker-fee series/categories
+   * 
+   * The series ticker is the market ticker prefix before the first '-'
+   * (KXSB-26-SEA → KXSB). A series match takes precedence over category.
+   */
+  classifyMarket(
+    marketId?: string,
+    category?: string,
+    seriesTicker?: string,
+    asOf?: string
+  ): KalshiMarketClassification {
+    const { makerFeeSeries, makerFeeCategories } = this.history.resolve(asOf).value;
+    const series = (seriesTicker ?? marketId?.split('-')[0])?.toUpperCase() || undefined;
+    
+    if (series && makerFeeSeries.has(series)) {
+      return { series_ticker: series, category, maker_fee_applies: true, matched_by: 'series' };
+    }
+    if (category && makerFeeCategories.has(category.toLowerCase())) {
+      return { series_ticker: series, category, maker_fee_applies: true, matched_by: 'category' };
+    }
+    return { series_ticker: series, category, maker_fee_applies: false };
+  }
+  
+  /**
+   * Describe a classification for the assumptions list
+   */
+  private describeClassification(
+    classification: KalshiMarketClassification,
+    specialCoefficient: number
+  ): string {
+    if (classification.matched_by === 'series') {
+      return `Maker-fee market (series ${classification.series_ticker}) → ${specialCoefficient}×C×P×(1-P)`;
+    }
+    if (classification.matched_by === 'category') {
+      return `Maker-fee market (category ${classification.category}) → ${specialCoefficient}×C×P×(1-P)`;
+    }
+    return classification.series_ticker
+      ? `Standard market (series ${classification.series_ticker}) → maker fee 0`
+      : `Standard market assumed (no market_id) → maker fee 0`;
   }
   
   /**
@@ -45,51 +156,92 @@ export class KalshiFeeCalculator extends BaseFeeCalculator {
     return coefficient * numContracts * varianceTerm;
   }
   
-  /**
-   * Convert USD trade size to approximate number of contracts
-   * 
-   * Each Kalshi contract costs `price` dollars and pays $1 if correct.
-   * So $100 at price $0.50 = 200 contracts
-   */
-  private usdToContracts(sizeUsd: number, price: number): number {
-    if (price <= 0 || price >= 1) return 0;
-    return sizeUsd / price;
-  }
-  
   /**
    * Calculate Kalshi fee for a trade
+   * 
+   * Coefficient precedence: account rates > volume tier > published formula.
+   * A negotiated bps rate on the account replaces the formula entirely.
    */
-  async estimate(params: FeeEstimateParams): Promise<FeeEstimate> {
+  async estimate(params: FeeEstimateParams, context?: FeeEstimateContext): Promise<FeeEstimate> {
     const price = params.price ?? 0.5;
-    const sizeUsd = params.size_usd;
+    const account = context?.account;
+    const { value: rates, version, effective_from } = this.history.resolve(params.as_of);
     
-    // Convert USD to contracts
-    const numContracts = this.usdToContracts(sizeUsd, price);
+    // Each contract costs `price` and pays $1 if correct ($100 at $0.50 = 200 contracts)
+    const { contracts: numContracts, notional_usd: sizeUsd } = this.resolveSize(params);
     
     // Determine coefficient based on order type
     const isMarketOrder = params.order_type === 'MARKET';
-    const coefficient = isMarketOrder 
-      ? this.TAKER_COEFFICIENT 
-      : this.MAKER_COEFFICIENT_DEFAULT; // Assume most markets (maker = 0)
+    const assumptions: string[] = [`${isMarketOrder ? 'Taker' : 'Maker'} order`];
     
-    // Calculate fee using official formula
-    const exchangeFee = this.calculateFee(numContracts, price, coefficient);
+    // Maker fees only apply to sports/macro markets
+    const classification = this.classifyMarket(
+      params.market_id, params.market_category, params.series_ticker, params.as_of
+    );
+    let coefficient: number;
+    if (isMarketOrder) {
+      coefficient = rates.takerCoefficient;
+    } else {
+      coefficient = classification.maker_fee_applies
+        ? rates.makerCoefficientSpecial
+        : rates.makerCoefficientDefault;
+      assumptions.push(this.describeClassification(classification, rates.makerCoefficientSpecial));
+    }
+    
+    // Volume tier coefficients replace the published ones (Kalshi tiers are
+    // coefficient-based). A tier with only bps scales the published
+    // coefficient by its rate relative to the ladder's first tier.
+    const tiers = context?.account?.volume_tiers ?? rates.schedule.volume_tiers;
+    const tier = this.resolveVolumeTier(rates.schedule.volume_tiers, context, assumptions);
+    const base = tiers.reduce<VolumeTier | undefined>((low, t) => (!low || t.min_volume_usd < low.min_volume_usd ? t : low), undefined);
+    const scaled = (bps: number, baseBps: number | undefined) => (baseBps ? coefficient * (bps / baseBps) : undefined);
+    const tierCoefficient = !tier
+      ? undefined
+      : isMarketOrder
+        ? tier.taker_coefficient ?? scaled(tier.taker_fee_bps, base?.taker_fee_bps)
+        : classification.maker_fee_applies
+          ? tier.maker_coefficient ?? scaled(tier.maker_fee_bps, base?.maker_fee_bps)
+          : undefined;
+    if (tierCoefficient !== undefined) {
+      coefficient = tierCoefficient;
+    }
+    
+    // Explicit account rates win over tiers
+    const accountCoefficient = isMarketOrder ? account?.taker_coefficient : account?.maker_coefficient;
+    const accountBps = isMarketOrder ? account?.taker_fee_bps : account?.maker_fee_bps;
+    if (accountCoefficient !== undefined) {
+      coefficient = accountCoefficient;
+    }
     
     // Calculate P×(1-P) for display
     const varianceTerm = price * (1 - price);
     
-    // Build assumptions
-    const assumptions: string[] = [
-      `${isMarketOrder ? 'Taker' : 'Maker'} order`,
-      `Formula: ${coefficient} × ${numContracts.toFixed(0)} contracts × ${price.toFixed(2)} × ${(1-price).toFixed(2)}`,
-      `P×(1-P) = ${varianceTerm.toFixed(4)} (max 0.25 at 50%)`,
-      `Fee: $${exchangeFee.toFixed(2)}`,
-    ];
+    // Calculate fee using official formula (or the account's flat bps rate)
+    let exchangeFee: number;
+    
+    if (accountBps !== undefined) {
+      exchangeFee = sizeUsd * (accountBps / 10000);
+      assumptions.push(`Account rate: ${accountBps} bps of notional (replaces formula)`);
+    } else {
+      exchangeFee = this.calculateFee(numContracts, price, coefficient);
+      assumptions.push(
+        `Formula: ${coefficient} × ${numContracts.toFixed(0)} ${params.outcome ?? 'YES'} contracts × ${price.toFixed(2)} × ${(1-price).toFixed(2)}`,
+        `P×(1-P) = ${varianceTerm.toFixed(4)} (max 0.25 at 50%)`,
+      );
+      if (accountCoefficient !== undefined) {
+        assumptions.push(`Account coefficient: ${accountCoefficient}`);
+      }
+    }
     
-    if (!isMarketOrder) {
-      assumptions.push(`Note: Maker fee is 0 for most markets, 0.0175×C×P×(1-P) for sports/macro`);
+    let rebate = 0;
+    if (account) {
+      ({ exchange_fee: exchangeFee, rebate } = this.applyAccountAdjustments(
+        account, isMarketOrder, sizeUsd, exchangeFee, assumptions
+      ));
     }
     
+    assumptions.push(`Fee: $${exchangeFee.toFixed(2)}`);
+    
     // Confidence is high - we're using the official formula
     const confidence = 'high';
     
@@ -97,30 +249,40 @@ export class KalshiFeeCalculator extends BaseFeeCalculator {
       params,
       {
         exchange_fee: exchangeFee,
+        rebate,
       },
       confidence,
-      assumptions
+      assumptions,
+      account ? 'ACCOUNT_SPECIFIC' : 'PUBLIC_SCHEDULE',
+      { version, effective_from }
     );
   }
   
   /**
    * Estimate with explicit contract count (more accurate)
+   * 
+   * When `isSpecialMarket` is omitted, the market is classified from `marketId`.
    */
   async estimateByContracts(
     numContracts: number,
     price: number,
     orderType: 'MARKET' | 'LIMIT' = 'MARKET',
-    isSpecialMarket: boolean = false
+    isSpecialMarket?: boolean,
+    marketId?: string
   ): Promise<FeeEstimate> {
     const isMarketOrder = orderType === 'MARKET';
+    const { value: rates, version, effective_from } = this.history.resolve();
+    if (isSpecialMarket === undefined) {
+      isSpecialMarket = this.classifyMarket(marketId).maker_fee_applies;
+    }
     
     let coefficient: number;
     if (isMarketOrder) {
-      coefficient = this.TAKER_COEFFICIENT;
+      coefficient = rates.takerCoefficient;
     } else {
       coefficient = isSpecialMarket 
-        ? this.MAKER_COEFFICIENT_SPECIAL 
-        : this.MAKER_COEFFICIENT_DEFAULT;
+        ? rates.makerCoefficientSpecial 
+        : rates.makerCoefficientDefault;
     }
     
     const exchangeFee = this.calculateFee(numContracts, price, coefficient);
@@ -135,23 +297,35 @@ export class KalshiFeeCalculator extends BaseFeeCalculator {
     ];
     
     return this.createEstimate(
-      { venue: 'KALSHI', size_usd: sizeUsd, price, order_type: orderType },
+      { venue: 'KALSHI', size_usd: sizeUsd, size_contracts: numContracts, price, order_type: orderType, market_id: marketId },
       { exchange_fee: exchangeFee },
       'high',
-      assumptions
+      assumptions,
+      'PUBLIC_SCHEDULE',
+      { version, effective_from }
     );
   }
   
-  getSchedule(): FeeSchedule {
+  getSchedule(asOf?: string): FeeSchedule {
+    const { value: { schedule }, effective_from } = this.history.resolve(asOf);
     return {
       venue: 'KALSHI',
-      updated_at: this.schedule.updated_at,
-      version: this.schedule.version,
-      maker_fee_bps: 0, // Most markets
-      taker_fee_bps: 175, // ~1.75% at P=0.50 (0.07 × 0.25 = 0.0175)
-      source: this.schedule.source,
-      source_url: this.schedule.source_url,
-      disclaimer: this.schedule.disclaimer,
+      updated_at: schedule.updated_at,
+      effective_from,
+      version: schedule.version,
+      maker_fee_bps: approximateBps(schedule.fee_rules.maker as FeeRule), // Most markets
+      taker_fee_bps: approximateBps(schedule.fee_rules.taker as FeeRule), // ~1.75% at P=0.50 (0.07 × 0.25 = 0.0175)
+      tiers: schedule.volume_tiers,
+      source: schedule.source,
+      source_url: schedule.source_url,
+      disclaimer: schedule.disclaimer,
     };
   }
+  
+  /**
+   * All loaded schedule versions, oldest first
+   */
+  getScheduleVersions(): FeeSchedule[] {
+    return this.history.list().map(v => this.getSchedule(v.effective_from));
+  }
 }
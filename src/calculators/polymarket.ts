@@ -1,36 +1,172 @@
 /**
  * Polymarket Fee Calculator
  * 
- * Simple maker/taker model with 0% maker and 1bp taker.
+ * Simple maker/taker model with 0% maker and 1bp taker. Short-duration
+ * crypto markets are identified from market metadata (FeeEstimateContext.market).
  */
 
-import { BaseFeeCalculator } from './interface';
-import type { FeeEstimate, FeeEstimateParams, FeeSchedule } from '../types';
+import { BaseFeeCalculator, type FeeEstimateContext } from './interface';
+import type {
+  FeeEstimate, FeeEstimateParams, FeeSchedule, FeeClassification, MarketMetadata,
+  GasEstimate, GasOperation, GasPriceQuote, MakerRebateEstimate,
+} from '../types';
 import polymarketSchedule from '../schedules/polymarket.json';
+import { ScheduleHistory } from '../schedules/history';
+import { InvalidScheduleError } from '../errors';
+
+export type PolymarketScheduleDefinition = typeof polymarketSchedule;
 
 export class PolymarketFeeCalculator extends BaseFeeCalculator {
   venue = 'POLYMARKET' as const;
   
-  private schedule: typeof polymarketSchedule;
+  // Dated schedule versions
+  private history = new ScheduleHistory<PolymarketScheduleDefinition>('POLYMARKET');
   
   constructor() {
     super();
-    this.schedule = polymarketSchedule;
+    this.addScheduleVersion(polymarketSchedule);
+  }
+  
+  /**
+   * Add a dated schedule version
+   * 
+   * Estimates with `as_of` on or after `effective_from` use it until a later
+   * version takes effect.
+   */
+  addScheduleVersion(schedule: PolymarketScheduleDefinition): void {
+    const { maker_fee_bps, taker_fee_bps } = schedule.base_fees ?? {};
+    if (!(maker_fee_bps >= 0) || !(taker_fee_bps >= 0)) {
+      throw new InvalidScheduleError(`Invalid Polymarket fee schedule ${schedule.version}: base_fees must be non-negative numbers`);
+    }
+    this.history.add(schedule.version, schedule.effective_from ?? schedule.updated_at, schedule);
+  }
+  
+  /**
+   * Fee class from market metadata
+   * 
+   * A market is short-duration crypto when it carries one of the schedule's
+   * tags and its trading window (or a duration tag such as "15M") is within
+   * `max_duration_minutes`. Without metadata, standard rates are assumed.
+   */
+  private classify(
+    schedule: PolymarketScheduleDefinition,
+    market: MarketMetadata | undefined
+  ): FeeClassification {
+    if (!market) return { market_class: 'standard', source: 'default' };
+    
+    const special = schedule.special_markets.short_duration_crypto;
+    const tags = (market.tags ?? []).map(t => t.trim().toLowerCase());
+    const tagged = tags.some(t => special.tags.includes(t));
+    
+    let minutes: number | undefined;
+    const start = market.start_date ? Date.parse(market.start_date) : NaN;
+    const end = market.end_date ? Date.parse(market.end_date) : NaN;
+    if (end > start) {
+      minutes = (end - start) / 60_000;
+    } else {
+      const durationTag = tags.map(t => /^(\d+)\s*m(?:in)?$/.exec(t)).find(m => m);
+      minutes = durationTag ? Number(durationTag[1]) : undefined;
+    }
+    
+    const shortDuration = tagged && minutes !== undefined && minutes <= special.max_duration_minutes;
+    const reportsRate = market.taker_fee_bps !== undefined || market.maker_fee_bps !== undefined;
+    return {
+      market_class: shortDuration ? 'short_duration_crypto' : 'standard',
+      source: reportsRate ? 'market_fee_rate' : 'market_metadata',
+    };
+  }
+  
+  /**
+   * Gas for on-chain operations outside a trade (e.g. redeeming settled tokens)
+   * 
+   * Same model as the trade estimate: the schedule in force at `asOf`, priced
+   * by `gasPrice` when given, else by the schedule average.
+   */
+  estimateOperationGas(operations: GasOperation[], gasPrice?: GasPriceQuote, asOf?: string): GasEstimate {
+    const { value: schedule } = this.history.resolve(asOf);
+    return this.estimateGas(schedule, { venue: 'POLYMARKET', size_usd: 0, gas_operations: operations }, { gas_price: gasPrice });
+  }
+  
+  /**
+   * Gas for the trade's on-chain operations
+   * 
+   * Units per operation come from the schedule. A live quote prices them
+   * directly; otherwise the schedule's average cost is scaled by units.
+   * Relayed trades cost the trader nothing.
+   */
+  private estimateGas(
+    schedule: PolymarketScheduleDefinition,
+    params: FeeEstimateParams,
+    context?: FeeEstimateContext
+  ): GasEstimate {
+    const gas = schedule.gas_estimate;
+    const operations = params.gas_operations ?? ['order_settlement'];
+    const units = operations.reduce((sum, op) => sum + gas.operations[op], 0);
+    const live = context?.gas_price;
+    const base = {
+      chain: gas.chain,
+      operations,
+      gas_units: units,
+      gas_price_gwei: live?.gas_price_gwei ?? gas.avg_gas_price_gwei,
+      native_usd: live?.native_usd,
+      source: live ? 'live' as const : 'schedule' as const,
+    };
+    
+    if (params.relayer) {
+      return { ...base, cost_usd: 0, paid_by: 'relayer' };
+    }
+    const cost = live
+      ? units * live.gas_price_gwei * 1e-9 * live.native_usd
+      : gas.avg_cost_usd * units / gas.avg_gas_units;
+    return { ...base, cost_usd: cost, paid_by: 'trader' };
   }
   
   /**
-   * Check if market is a short-duration crypto market (higher fees)
+   * Expected daily maker rebate for a LIMIT order
+   * 
+   * A per-day amount, reported beside the per-trade fee rather than netted
+   * against it. Only markets in the program's eligible classes pay rebates.
+   * Taker volume and liquidity share come from params, else market metadata
+   * (share = this order's size against the resting liquidity); without them
+   * no rebate is estimated.
    */
-  private isShortDurationCrypto(marketId?: string): boolean {
-    // Short-duration crypto markets typically have specific identifiers
-    // For now, we'll default to standard fees unless explicitly specified
-    // In production, this would check market metadata
-    if (!marketId) return false;
-    
-    // Heuristic: 15-minute markets often have "15m" or "crypto" in identifier
-    const lowerMarketId = marketId.toLowerCase();
-    return lowerMarketId.includes('15m') || 
-           (lowerMarketId.includes('crypto') && lowerMarketId.includes('minute'));
+  private estimateMakerRebate(
+    schedule: PolymarketScheduleDefinition,
+    classification: FeeClassification,
+    params: FeeEstimateParams,
+    sizeUsd: number,
+    market: MarketMetadata | undefined,
+    assumptions: string[]
+  ): MakerRebateEstimate | undefined {
+    const program = schedule.maker_rebates;
+    if (!program.enabled || !program.eligible_market_classes.includes(classification.market_class)) {
+      return undefined;
+    }
+    
+    const volume = params.maker_rebate?.taker_volume_usd ?? market?.volume_24h_usd;
+    const share = params.maker_rebate?.liquidity_share
+      ?? (market?.liquidity_usd !== undefined ? sizeUsd / (market.liquidity_usd + sizeUsd) : undefined);
+    if (volume === undefined || share === undefined) {
+      assumptions.push('Eligible for maker rebates program (no taker volume or liquidity share: not estimated)');
+      return undefined;
+    }
+    
+    const takerFeeBps = market?.taker_fee_bps ?? (classification.market_class === 'short_duration_crypto'
+      ? schedule.special_markets.short_duration_crypto.taker_fee_bps
+      : schedule.base_fees.taker_fee_bps);
+    const pool = volume * (takerFeeBps / 10000) * program.pool_fraction_of_taker_fees;
+    const expected = pool * share;
+    assumptions.push(
+      `Maker rebate: ${(share * 100).toFixed(2)}% of daily pool $${pool.toFixed(2)} ` +
+        `($${volume.toFixed(0)} taker volume × ${takerFeeBps} bps) = $${expected.toFixed(2)}/day, not netted against the fee`
+    );
+    return {
+      taker_volume_usd: volume,
+      taker_fee_bps: takerFeeBps,
+      pool_usd: pool,
+      liquidity_share: share,
+      expected_daily_rebate_usd: expected,
+    };
   }
   
   /**
@@ -38,21 +174,31 @@ export class PolymarketFeeCalculator extends BaseFeeCalculator {
    * 
    * Most markets: 0% maker, 0.01% taker
    * Short-duration crypto: Higher taker fees
+   * A fee rate reported in the market metadata replaces the schedule rate
+   * LIMIT orders on rebate-eligible markets: expected daily maker rebate on maker_rebate
+   * Account rates (if provided) replace the public bps rate
    */
-  async estimate(params: FeeEstimateParams): Promise<FeeEstimate> {
-    const sizeUsd = params.size_usd;
+  async estimate(params: FeeEstimateParams, context?: FeeEstimateContext): Promise<FeeEstimate> {
+    const sizeUsd = this.resolveSize(params).notional_usd;
+    const account = context?.account;
     const isMarketOrder = params.order_type === 'MARKET';
-    const isShortDuration = this.isShortDurationCrypto(params.token_id);
+    const { value: schedule, version, effective_from } = this.history.resolve(params.as_of);
+    const market = context?.market;
+    const classification = this.classify(schedule, market);
+    const isShortDuration = classification.market_class === 'short_duration_crypto';
     
     // Determine fee rate
     let feeRateBps: number;
     let assumptions: string[] = [];
     
+    // Volume tier rates apply to standard markets (special markets keep their own rate)
+    const tier = this.resolveVolumeTier(schedule.volume_tiers, context, assumptions);
+    
     if (isMarketOrder) {
       // Taker fee
-      feeRateBps = isShortDuration 
-        ? this.schedule.special_markets.short_duration_crypto.taker_fee_bps
-        : this.schedule.base_fees.taker_fee_bps;
+      feeRateBps = market?.taker_fee_bps ?? (isShortDuration
+        ? schedule.special_markets.short_duration_crypto.taker_fee_bps
+        : tier?.taker_fee_bps ?? schedule.base_fees.taker_fee_bps);
       
       assumptions.push(`Taker order (market order)`);
       if (isShortDuration) {
@@ -60,46 +206,84 @@ export class PolymarketFeeCalculator extends BaseFeeCalculator {
       }
     } else {
       // Maker fee (typically 0)
-      feeRateBps = this.schedule.base_fees.maker_fee_bps;
-      assumptions.push(`Maker order (limit order) → 0% fee`);
+      feeRateBps = market?.maker_fee_bps ?? tier?.maker_fee_bps ?? schedule.base_fees.maker_fee_bps;
+      assumptions.push(`Maker order (limit order) → ${feeRateBps === 0 ? '0% fee' : `${feeRateBps} bps`}`);
       
-      if (this.schedule.maker_rebates.enabled) {
-        assumptions.push(`Eligible for maker rebates program`);
-      }
+    }
+    
+    const accountBps = isMarketOrder ? account?.taker_fee_bps : account?.maker_fee_bps;
+    if (accountBps !== undefined) {
+      feeRateBps = accountBps;
+      assumptions.push(`Account rate: ${accountBps} bps`);
     }
     
     const feeRate = feeRateBps / 10000;
-    const exchangeFee = sizeUsd * feeRate;
+    let exchangeFee = Math.max(sizeUsd * feeRate, schedule.min_fee_usd);
+    let rebate = 0;
+    if (account) {
+      ({ exchange_fee: exchangeFee, rebate } = this.applyAccountAdjustments(
+        account, isMarketOrder, sizeUsd, exchangeFee, assumptions
+      ));
+    }
     
-    // Gas estimate (minimal on Polygon)
-    const gasEstimate = this.schedule.gas_estimate.avg_cost_usd;
-    assumptions.push(`Gas estimate: $${gasEstimate.toFixed(4)} (Polygon)`);
+    const makerRebate = isMarketOrder ? undefined : this.estimateMakerRebate(schedule, classification, params, sizeUsd, market, assumptions);
+    
+    // Settlement fee on winning payouts: expected cost = P(win) × contracts × rate = notional × rate
+    const settlementFee = schedule.settlement_fee.enabled ? sizeUsd * (schedule.settlement_fee.fee_bps / 10000) : 0;
+    if (settlementFee > 0) {
+      assumptions.push(`Settlement fee: ${schedule.settlement_fee.fee_bps} bps of payout (expected $${settlementFee.toFixed(2)})`);
+    }
+    
+    // Gas (minimal on Polygon)
+    const gas = this.estimateGas(schedule, params, context);
+    assumptions.push(gas.paid_by === 'relayer'
+      ? `Gas: paid by Polymarket relayer (${gas.operations.join(', ')})`
+      : `Gas estimate: $${gas.cost_usd.toFixed(4)} (${gas.operations.join(', ')}: ${gas.gas_units} units @ ` +
+        `${gas.gas_price_gwei.toFixed(1)} gwei${gas.native_usd !== undefined ? `, POL $${gas.native_usd.toFixed(4)}` : ', schedule average'})`);
     
     // Effective fee rate
     assumptions.push(`Fee rate: ${feeRateBps} bps (${(feeRate * 100).toFixed(3)}%)`);
+    assumptions.push(classification.source === 'default'
+      ? 'No market metadata: standard market fees assumed'
+      : `Market class ${classification.market_class} (from ${classification.source.replace(/_/g, ' ')})`);
     
-    return this.createEstimate(
+    const estimate = this.createEstimate(
       params,
       {
-        exchange_fee: Math.max(exchangeFee, this.schedule.min_fee_usd),
-        gas_fee: gasEstimate,
+        exchange_fee: exchangeFee,
+        gas_fee: gas.cost_usd,
+        settlement_fee: settlementFee,
+        rebate,
       },
       'high', // Polymarket fees are well-documented and predictable
-      assumptions
+      assumptions,
+      account ? 'ACCOUNT_SPECIFIC' : 'PUBLIC_SCHEDULE',
+      { version, effective_from }
     );
+    return { ...estimate, fee_classification: classification, gas, maker_rebate: makerRebate };
   }
   
-  getSchedule(): FeeSchedule {
+  getSchedule(asOf?: string): FeeSchedule {
+    const { value: schedule, effective_from } = this.history.resolve(asOf);
     return {
       venue: 'POLYMARKET',
-      updated_at: this.schedule.updated_at,
-      version: this.schedule.version,
-      maker_fee_bps: this.schedule.base_fees.maker_fee_bps,
-      taker_fee_bps: this.schedule.base_fees.taker_fee_bps,
-      source: this.schedule.source,
-      source_url: this.schedule.source_url,
-      disclaimer: this.schedule.disclaimer,
-      gas_estimate: this.schedule.gas_estimate,
+      updated_at: schedule.updated_at,
+      effective_from,
+      version: schedule.version,
+      maker_fee_bps: schedule.base_fees.maker_fee_bps,
+      taker_fee_bps: schedule.base_fees.taker_fee_bps,
+      tiers: schedule.volume_tiers,
+      source: schedule.source,
+      source_url: schedule.source_url,
+      disclaimer: schedule.disclaimer,
+      gas_estimate: schedule.gas_estimate,
     };
   }
+  
+  /**
+   * All loaded schedule versions, oldest first
+   */
+  getScheduleVersions(): FeeSchedule[] {
+    return this.history.list().map(v => this.getSchedule(v.effective_from));
+  }
 }
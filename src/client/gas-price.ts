@@ -0,0 +1,124 @@
+/**
+ * Gas Price Feed
+ *
+ * Live inputs for on-chain gas costs: the network gas price (e.g. from a
+ * Polygon JSON-RPC endpoint) and the native token's USD price (e.g. from
+ * CoinGecko). Both sources are plain functions, so tests and offline setups
+ * can pass local stubs.
+ */
+
+import type { GasPriceQuote } from '../types';
+import { GasPriceTimeoutError, GasPriceUnavailableError, OracleError } from '../errors';
+
+/** Network gas price in gwei */
+export type GasPriceSource = (options?: { signal?: AbortSignal }) => Promise<number>;
+
+/** Native token (POL) price in USD */
+export type NativeUsdSource = (options?: { signal?: AbortSignal }) => Promise<number>;
+
+export interface GasPriceFeedConfig {
+  gasPriceSource: GasPriceSource;
+  nativeUsdSource: NativeUsdSource;
+  /** Reuse a quote for this long, in ms (default 15000) */
+  maxAgeMs?: number;
+  /** Give up on a lookup after this long, in ms (default 5000) */
+  timeoutMs?: number;
+}
+
+export class GasPriceFeed {
+  private gasPriceSource: GasPriceSource;
+  private nativeUsdSource: NativeUsdSource;
+  private maxAgeMs: number;
+  private timeoutMs: number;
+
+  private latest: GasPriceQuote | null = null;
+  private pending: Promise<GasPriceQuote> | null = null;
+
+  constructor(config: GasPriceFeedConfig) {
+    this.gasPriceSource = config.gasPriceSource;
+    this.nativeUsdSource = config.nativeUsdSource;
+    this.maxAgeMs = config.maxAgeMs ?? 15_000;
+    this.timeoutMs = config.timeoutMs ?? 5_000;
+  }
+
+  /**
+   * Current quote (cached up to `maxAgeMs`; concurrent callers share one lookup)
+   *
+   * Rejects with GasPriceUnavailableError if either source fails or returns
+   * a non-positive number, and GasPriceTimeoutError after `timeoutMs`.
+   */
+  async quote(options?: { signal?: AbortSignal }): Promise<GasPriceQuote> {
+    if (this.latest && Date.now() - Date.parse(this.latest.observed_at) <= this.maxAgeMs) {
+      return this.latest;
+    }
+    this.pending ??= this.fetchQuote(options).finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async fetchQuote(options?: { signal?: AbortSignal }): Promise<GasPriceQuote> {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const signal = options?.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+    // Sources get the signal, but one that ignores it still cannot stall the quote
+    const aborted = new Promise<never>((_, reject) => {
+      const fail = () => reject(timeout.aborted ? new GasPriceTimeoutError(this.timeoutMs) : signal.reason);
+      if (signal.aborted) fail();
+      else signal.addEventListener('abort', fail, { once: true });
+    });
+    aborted.catch(() => undefined);
+    const sources = Promise.all([this.gasPriceSource({ signal }), this.nativeUsdSource({ signal })]).catch(err => {
+      if (signal.aborted) return aborted;
+      throw err instanceof OracleError ? err : new GasPriceUnavailableError('Gas price source failed', { cause: err });
+    });
+    const [gasPriceGwei, nativeUsd] = await Promise.race([sources, aborted]);
+    if (!(gasPriceGwei > 0) || !(nativeUsd > 0)) {
+      throw new GasPriceUnavailableError(`Invalid gas quote: ${gasPriceGwei} gwei at $${nativeUsd}`);
+    }
+    this.latest = { gas_price_gwei: gasPriceGwei, native_usd: nativeUsd, observed_at: new Date().toISOString() };
+    return this.latest;
+  }
+}
+
+/**
+ * Gas price from an EVM JSON-RPC endpoint (`eth_gasPrice`)
+ */
+export function jsonRpcGasPriceSource(url: string): GasPriceSource {
+  return async options => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_gasPrice', params: [] }),
+      signal: options?.signal,
+    });
+    if (!response.ok) {
+      throw new GasPriceUnavailableError(`Gas price RPC error: ${response.status} ${response.statusText}`);
+    }
+    const payload = await response.json() as { result?: string; error?: { message?: string } };
+    if (typeof payload.result !== 'string') {
+      throw new GasPriceUnavailableError(`Gas price RPC error: ${payload.error?.message ?? 'no result'}`, { cause: payload.error });
+    }
+    // Result is wei, hex encoded
+    return Number(BigInt(payload.result)) / 1e9;
+  };
+}
+
+/**
+ * POL price in USD from the CoinGecko simple price API
+ */
+export function coinGeckoPolUsdSource(
+  url = 'https://api.coingecko.com/api/v3/simple/price?ids=polygon-ecosystem-token&vs_currencies=usd'
+): NativeUsdSource {
+  return async options => {
+    const response = await fetch(url, { signal: options?.signal });
+    if (!response.ok) {
+      throw new GasPriceUnavailableError(`POL price error: ${response.status} ${response.statusText}`);
+    }
+    const payload = await response.json() as { 'polygon-ecosystem-token'?: { usd?: number } };
+    const usd = payload['polygon-ecosystem-token']?.usd;
+    if (typeof usd !== 'number') {
+      throw new GasPriceUnavailableError('POL price error: no usd price');
+    }
+    return usd;
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Orderbook Snapshot Cache
+ * 
+ * Sits in front of ReplayLabsClient.getOrderbook:
+ * - Serves snapshots younger than a configurable max-age from memory
+ * - Coalesces concurrent identical requests into one HTTP call (aborted only
+ *   once every caller waiting on it has aborted)
+ * - Keeps historical snapshots (`at`) indefinitely since they never change
+ */
+
+import type { Venue, OrderbookSnapshot } from '../types';
+import type { OrderbookRequestOptions } from './replay-labs';
+
+export type OrderbookFetcher = (
+  venue: Venue,
+  marketId: string,
+  options?: OrderbookRequestOptions
+) => Promise<OrderbookSnapshot>;
+
+export interface OrderbookCacheConfig {
+  /** Default max snapshot age served from cache in ms (default 1000) */
+  maxAgeMs?: number;
+  /** Maximum number of cached snapshots (default 500, oldest evicted first) */
+  maxEntries?: number;
+}
+
+export interface OrderbookCacheOptions extends OrderbookRequestOptions {
+  /** Max snapshot age acceptable for this request (overrides the default) */
+  maxAgeMs?: number;
+}
+
+/**
+ * Snapshot plus where it came from
+ */
+export interface CachedOrderbook {
+  snapshot: OrderbookSnapshot;
+  /** Served from cache without a request */
+  cache_hit: boolean;
+  /** Joined a request already in flight for the same book */
+  coalesced: boolean;
+  /** Time since the snapshot was fetched, in ms */
+  age_ms: number;
+}
+
+interface CacheEntry {
+  snapshot: OrderbookSnapshot;
+  fetched_at_ms: number;
+}
+
+interface InFlightRequest {
+  promise: Promise<CacheEntry>;
+  controller: AbortController;
+  /** Callers still waiting - the request is aborted once all of them abort */
+  waiters: number;
+}
+
+/**
+ * Settle with the shared promise, or reject early if this caller aborts
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort: () => void): Promise<T> {
+  if (!signal) return promise;
+  
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort();
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      err => {
+        signal.removeEventListener('abort', abort);
+        reject(err);
+      }
+    );
+  });
+}
+
+export class OrderbookCache {
+  private readonly maxAgeMs: number;
+  private readonly maxEntries: number;
+  private entries: Map<string, CacheEntry> = new Map();
+  private inFlight: Map<string, InFlightRequest> = new Map();
+  private hits = 0;
+  private misses = 0;
+  
+  constructor(
+    private readonly fetcher: OrderbookFetcher,
+    config?: OrderbookCacheConfig
+  ) {
+    this.maxAgeMs = config?.maxAgeMs ?? 1000;
+    this.maxEntries = config?.maxEntries ?? 500;
+  }
+  
+  private key(venue: Venue, marketId: string, at?: string): string {
+    return `${venue}:${marketId}:${at ? new Date(at).toISOString() : 'live'}`;
+  }
+  
+  /**
+   * Get a snapshot, from cache when fresh enough
+   */
+  async get(venue: Venue, marketId: string, options?: OrderbookCacheOptions): Promise<CachedOrderbook> {
+    const key = this.key(venue, marketId, options?.at);
+    const maxAgeMs = options?.maxAgeMs ?? this.maxAgeMs;
+    const now = Date.now();
+    
+    const cached = this.entries.get(key);
+    if (cached && (options?.at || now - cached.fetched_at_ms < maxAgeMs)) {
+      this.hits++;
+      return {
+        snapshot: cached.snapshot,
+        cache_hit: true,
+        coalesced: false,
+        age_ms: now - cached.fetched_at_ms,
+      };
+    }
+    
+    this.misses++;
+    
+    let request = this.inFlight.get(key);
+    const coalesced = request !== undefined;
+    if (!request) {
+      const controller = new AbortController();
+      const promise = this.fetcher(venue, marketId, { at: options?.at, signal: controller.signal })
+        .then(snapshot => {
+          const entry = { snapshot, fetched_at_ms: Date.now() };
+          this.store(key, entry);
+          return entry;
+        })
+        .finally(() => {
+          this.inFlight.delete(key);
+        });
+      // Avoid unhandled rejections when every waiter has aborted
+      promise.catch(() => undefined);
+      request = { promise, controller, waiters: 0 };
+      this.inFlight.set(key, request);
+    }
+    
+    const shared = request;
+    shared.waiters++;
+    let waiting = true;
+    let entry: CacheEntry;
+    try {
+      entry = await raceAbort(shared.promise, options?.signal, () => {
+        waiting = false;
+        if (--shared.waiters === 0) {
+          shared.controller.abort(options?.signal?.reason);
+        }
+      });
+    } finally {
+      if (waiting) shared.waiters--;
+    }
+    
+    return {
+      snapshot: entry.snapshot,
+      cache_hit: false,
+      coalesced,
+      age_ms: Date.now() - entry.fetched_at_ms,
+    };
+  }
+  
+  private store(key: string, entry: CacheEntry): void {
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+  
+  /**
+   * Drop cached snapshots (all, one venue, or one market)
+   */
+  invalidate(venue?: Venue, marketId?: string): void {
+    if (!venue) {
+      this.entries.clear();
+      return;
+    }
+    const prefix = marketId ? `${venue}:${marketId}:` : `${venue}:`;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+  
+  /**
+   * Hit/miss counters since creation
+   */
+  getStats(): { hits: number; misses: number; size: number; in_flight: number } {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      in_flight: this.inFlight.size,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Client-side Rate Limiting
+ * 
+ * Token bucket shared by every ReplayLabsClient using the same API key, so
+ * several clients (or oracles) in one process stay under the key's quota.
+ */
+
+import { InvalidParamsError } from '../errors';
+
+export interface RateLimitConfig {
+  /** Sustained request rate */
+  requestsPerSecond: number;
+  /** Bucket capacity - requests allowed in a burst (default: requestsPerSecond) */
+  burst?: number;
+}
+
+/**
+ * Sleep for `ms`, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefillMs: number;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  
+  constructor(config: RateLimitConfig) {
+    if (!(config.requestsPerSecond > 0)) {
+      throw new InvalidParamsError(
+        `requestsPerSecond must be positive, got ${config.requestsPerSecond}`,
+        'requestsPerSecond'
+      );
+    }
+    if (config.burst !== undefined && !(config.burst >= 1)) {
+      throw new InvalidParamsError(`burst must be at least 1, got ${config.burst}`, 'burst');
+    }
+    this.capacity = config.burst ?? config.requestsPerSecond;
+    this.refillPerMs = config.requestsPerSecond / 1000;
+    this.tokens = this.capacity;
+    this.lastRefillMs = Date.now();
+  }
+  
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefillMs) * this.refillPerMs);
+    this.lastRefillMs = now;
+  }
+  
+  /**
+   * Take a token if one is available right now
+   */
+  tryAcquire(): boolean {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+    return false;
+  }
+  
+  /**
+   * Wait until a token is available
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    while (!this.tryAcquire()) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      await sleep(waitMs, signal);
+    }
+  }
+}
+
+// One bucket per API key, shared across clients
+const buckets: Map<string, TokenBucket> = new Map();
+
+/**
+ * Get (or create) the bucket for an API key
+ * 
+ * The first config seen for a key wins; later clients share that bucket.
+ */
+export function getRateLimiter(apiKey: string, config: RateLimitConfig): TokenBucket {
+  let bucket = buckets.get(apiKey);
+  if (!bucket) {
+    bucket = new TokenBucket(config);
+    buckets.set(apiKey, bucket);
+  }
+  return bucket;
+}
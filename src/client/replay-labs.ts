@@ -4,16 +4,51 @@
  * Fetches live orderbook data for accurate spread/slippage calculation.
  */
 
-import type { Venue, OrderbookSnapshot, OrderbookLevel } from '../types';
+import type { Venue, Outcome, OrderbookSnapshot, OrderbookLevel, MarketMetadata } from '../types';
+import { buildOrderbookSnapshot, complementPrice } from '../orderbook';
+import { getRateLimiter, sleep, type RateLimitConfig, type TokenBucket } from './rate-limiter';
+import { OrderbookStream, type OrderbookStreamConfig, type WebSocketFactory } from './stream';
+import { InvalidParamsError, UnsupportedVenueError, UpstreamHttpError, UpstreamTimeoutError } from '../errors';
 
 const DEFAULT_BASE_URL = 'https://replay-lab-delta.preview.recall.network';
 
 export interface ReplayLabsConfig {
   baseUrl?: string;
   apiKey: string;
+  /** Per-attempt request timeout in ms (default 10000) */
+  timeoutMs?: number;
+  /** Retries after a 429/5xx, network error or timeout (default 3) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in ms (default 250) */
+  retryBaseDelayMs?: number;
+  /** Upper bound for any single retry delay in ms, including Retry-After (default 10000) */
+  retryMaxDelayMs?: number;
+  /** Client-side token bucket per API key (default 10 req/s, burst 20); false disables */
+  rateLimit?: RateLimitConfig | false;
+  /** Orderbook stream endpoint (default: baseUrl with ws(s):// and /api/stream/orderbook) */
+  streamUrl?: string;
+  /** WebSocket constructor for streaming (default: global WebSocket) */
+  webSocketFactory?: WebSocketFactory;
+}
+
+/**
+ * Options for orderbook requests
+ */
+export interface OrderbookRequestOptions {
+  /** Fetch the historical snapshot at this time (ISO 8601) instead of the current book */
+  at?: string;
+  /** Cancels the request (including pending retries and rate-limit waits) */
+  signal?: AbortSignal;
+  /**
+   * Outcome to quote the book in (default YES). Kalshi books are built from
+   * both ladders; for Polymarket this labels the requested token's outcome.
+   */
+  outcome?: Outcome;
 }
 
 export interface KalshiOrderbookResponse {
+  /** Snapshot time (present on historical responses) */
+  timestamp?: string;
   orderbook: {
     yes: [number, number][];        // [price_cents, quantity]
     yes_dollars: [string, number][];
@@ -30,127 +65,285 @@ export interface PolymarketOrderbookResponse {
   asks: { price: string; size: string }[];
 }
 
+/**
+ * Polymarket CLOB market (fee fields are in basis points)
+ */
+export interface PolymarketMarketResponse {
+  condition_id: string;
+  tags?: string[] | null;
+  maker_base_fee?: number | null;
+  taker_base_fee?: number | null;
+  accepting_order_timestamp?: string | null;
+  game_start_time?: string | null;
+  end_date_iso?: string | null;
+}
+
 export class ReplayLabsClient {
   private baseUrl: string;
   private apiKey: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private rateLimiter: TokenBucket | null;
+  private streamUrl: string;
+  private webSocketFactory?: WebSocketFactory;
+  private orderbookStream: OrderbookStream | null = null;
 
   constructor(config: ReplayLabsConfig) {
     this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
     this.apiKey = config.apiKey;
+    this.timeoutMs = config.timeoutMs ?? 10_000;
+    this.maxRetries = config.maxRetries ?? 3;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? 250;
+    this.retryMaxDelayMs = config.retryMaxDelayMs ?? 10_000;
+    this.rateLimiter = config.rateLimit === false
+      ? null
+      : getRateLimiter(this.apiKey, config.rateLimit ?? { requestsPerSecond: 10, burst: 20 });
+    this.streamUrl = config.streamUrl ?? `${this.baseUrl.replace(/^http/, 'ws')}/api/stream/orderbook`;
+    this.webSocketFactory = config.webSocketFactory;
+  }
+
+  /**
+   * Streaming orderbooks (snapshot + deltas over WebSocket)
+   * 
+   * Returns the client's shared stream, creating it on first call (or after
+   * it was closed). Subscribe
+   * to markets, then read the local books with zero network latency.
+   */
+  stream(options?: Partial<Omit<OrderbookStreamConfig, 'url' | 'apiKey'>>): OrderbookStream {
+    if (!this.orderbookStream || this.orderbookStream.isClosed()) {
+      this.orderbookStream = new OrderbookStream({
+        webSocketFactory: this.webSocketFactory,
+        ...options,
+        url: this.streamUrl,
+        apiKey: this.apiKey,
+      });
+    }
+    return this.orderbookStream;
   }
 
-  private async fetch<T>(path: string): Promise<T> {
+  /**
+   * GET a Replay Labs endpoint
+   * 
+   * Each attempt waits for a rate-limit token and is bounded by the timeout.
+   * 429/5xx responses, network errors and timeouts are retried with
+   * exponential backoff and full jitter, honoring Retry-After when present.
+   * Aborting `signal` stops immediately, without further retries.
+   * 
+   * Throws UpstreamHttpError (non-retryable status, or retries exhausted) or
+   * UpstreamTimeoutError; other network failures are rethrown as-is.
+   */
+  private async fetch<T>(path: string, signal?: AbortSignal): Promise<T> {
     const url = `${this.baseUrl}${path}`;
     
-    const response = await fetch(url, {
-      headers: {
-        'x-api-key': this.apiKey,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Replay Labs API error: ${response.status} ${response.statusText}`);
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      await this.rateLimiter?.acquire(signal);
+      
+      const timeout = AbortSignal.timeout(this.timeoutMs);
+      const attemptSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+      const canRetry = attempt < this.maxRetries;
+      
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: {
+            'x-api-key': this.apiKey,
+            'Content-Type': 'application/json',
+          },
+          signal: attemptSignal,
+        });
+      } catch (err) {
+        // Caller cancelled - never retry
+        if (signal?.aborted) throw signal.reason;
+        
+        if (!canRetry) {
+          if (timeout.aborted) {
+            throw new UpstreamTimeoutError(this.timeoutMs, path);
+          }
+          throw err;
+        }
+        await sleep(this.backoffDelay(attempt), signal);
+        continue;
+      }
+
+      if (response.ok) {
+        return response.json() as Promise<T>;
+      }
+      
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && canRetry) {
+        // Release the connection instead of holding it through the backoff
+        void response.body?.cancel().catch(() => undefined);
+        const retryAfter = this.parseRetryAfter(response.headers.get('retry-after'));
+        await sleep(retryAfter ?? this.backoffDelay(attempt), signal);
+        continue;
+      }
+
+      const body = await response.text().catch(() => undefined);
+      throw new UpstreamHttpError(response.status, response.statusText, path, body?.slice(0, 1000));
     }
+  }
 
-    return response.json() as Promise<T>;
+  /**
+   * Exponential backoff with full jitter: random(0, base × 2^attempt), capped
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retryMaxDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Parse a Retry-After header (delta-seconds or HTTP-date) into ms, capped
+   */
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    
+    const seconds = Number(header);
+    const delayMs = Number.isFinite(seconds)
+      ? seconds * 1000
+      : Date.parse(header) - Date.now();
+    
+    if (Number.isNaN(delayMs)) return undefined;
+    return Math.min(this.retryMaxDelayMs, Math.max(0, delayMs));
+  }
+
+  /**
+   * Build the query suffix for a historical snapshot
+   */
+  private atQuery(at: string | undefined, separator: '?' | '&'): string {
+    if (!at) return '';
+    if (Number.isNaN(Date.parse(at))) {
+      throw new InvalidParamsError(`Invalid orderbook timestamp: ${at}`, 'at');
+    }
+    return `${separator}at=${encodeURIComponent(new Date(at).toISOString())}`;
   }
 
   /**
    * Get Kalshi orderbook and convert to normalized format
    */
-  async getKalshiOrderbook(ticker: string): Promise<OrderbookSnapshot> {
+  async getKalshiOrderbook(ticker: string, options?: OrderbookRequestOptions): Promise<OrderbookSnapshot> {
     const response = await this.fetch<KalshiOrderbookResponse>(
-      `/api/kalshi/markets/${ticker}/orderbook`
+      `/api/kalshi/markets/${ticker}/orderbook${this.atQuery(options?.at, '?')}`,
+      options?.signal
     );
 
-    return this.parseKalshiOrderbook(ticker, response);
+    return this.parseKalshiOrderbook(ticker, response, options?.at, options?.outcome);
   }
 
   /**
    * Get Polymarket orderbook and convert to normalized format
    */
-  async getPolymarketOrderbook(tokenId: string): Promise<OrderbookSnapshot> {
+  async getPolymarketOrderbook(tokenId: string, options?: OrderbookRequestOptions): Promise<OrderbookSnapshot> {
     const response = await this.fetch<PolymarketOrderbookResponse>(
-      `/api/polymarket/clob/book?token_id=${encodeURIComponent(tokenId)}`
+      `/api/polymarket/clob/book?token_id=${encodeURIComponent(tokenId)}${this.atQuery(options?.at, '&')}`,
+      options?.signal
     );
 
-    return this.parsePolymarketOrderbook(tokenId, response);
+    return this.parsePolymarketOrderbook(tokenId, response, options?.outcome);
   }
 
   /**
    * Get orderbook for any supported venue
+   * 
+   * Pass `{ at }` to replay the book as it was at a past moment.
    */
-  async getOrderbook(venue: Venue, marketId: string): Promise<OrderbookSnapshot> {
+  async getOrderbook(venue: Venue, marketId: string, options?: OrderbookRequestOptions): Promise<OrderbookSnapshot> {
     switch (venue) {
       case 'KALSHI':
-        return this.getKalshiOrderbook(marketId);
+        return this.getKalshiOrderbook(marketId, options);
       case 'POLYMARKET':
-        return this.getPolymarketOrderbook(marketId);
+        return this.getPolymarketOrderbook(marketId, options);
       default:
-        throw new Error(`Orderbook not supported for venue: ${venue}`);
+        throw new UnsupportedVenueError(venue, `Orderbook not supported for venue: ${venue}`);
     }
   }
 
+  /**
+   * Fee-relevant market metadata
+   * 
+   * Polymarket markets are looked up by condition id (`market_id`). With
+   * only a token id, the condition id is read from the token's book first.
+   * Other venues resolve undefined. The CLOB market record has no volume or liquidity, so `volume_24h_usd`
+   * and `liquidity_usd` stay unset (maker rebates then need explicit
+   * `maker_rebate` inputs or another provider).
+   */
+  async getMarketMetadata(
+    venue: Venue,
+    ids: { market_id?: string; token_id?: string },
+    options?: { signal?: AbortSignal }
+  ): Promise<MarketMetadata | undefined> {
+    if (venue !== 'POLYMARKET' || (!ids.market_id && !ids.token_id)) return undefined;
+    const conditionId = ids.market_id ?? (await this.fetch<PolymarketOrderbookResponse>(
+      `/api/polymarket/clob/book?token_id=${encodeURIComponent(ids.token_id!)}`,
+      options?.signal
+    )).market;
+    if (!conditionId) return undefined;
+    const response = await this.fetch<PolymarketMarketResponse>(
+      `/api/polymarket/clob/markets/${encodeURIComponent(conditionId)}`,
+      options?.signal
+    );
+    return {
+      venue,
+      market_id: response.condition_id ?? conditionId,
+      maker_fee_bps: response.maker_base_fee ?? undefined,
+      taker_fee_bps: response.taker_base_fee ?? undefined,
+      tags: response.tags ?? undefined,
+      start_date: response.accepting_order_timestamp ?? response.game_start_time ?? undefined,
+      end_date: response.end_date_iso ?? undefined,
+    };
+  }
+
   /**
    * Parse Kalshi orderbook response
    * 
-   * Kalshi uses cents (0-100) for prices, we convert to dollars (0-1)
+   * Kalshi returns bid ladders for both outcomes. A NO bid at p is a YES
+   * offer at 1 - p, so each outcome's book is its own bids plus the other
+   * ladder's bids as asks.
    */
-  private parseKalshiOrderbook(ticker: string, response: KalshiOrderbookResponse): OrderbookSnapshot {
+  private parseKalshiOrderbook(
+    ticker: string,
+    response: KalshiOrderbookResponse,
+    at?: string,
+    outcome: Outcome = 'YES'
+  ): OrderbookSnapshot {
     const { orderbook } = response;
 
-    // Convert yes side to normalized levels
-    // In Kalshi: yes_dollars is [["0.38", 445957], ...] = price, quantity
-    const bids: OrderbookLevel[] = orderbook.yes_dollars
-      .map(([priceStr, qty]) => ({
-        price: parseFloat(priceStr),
-        size: qty,
-        side: 'BID' as const,
-      }))
+    // yes_dollars/no_dollars are [["0.38", 445957], ...] = price, quantity
+    const yesBids = orderbook.yes_dollars.map(([priceStr, qty]) => ({ price: parseFloat(priceStr), size: qty }));
+    const noBids = orderbook.no_dollars.map(([priceStr, qty]) => ({ price: parseFloat(priceStr), size: qty }));
+    const [ownBids, otherBids] = outcome === 'YES' ? [yesBids, noBids] : [noBids, yesBids];
+
+    const bids: OrderbookLevel[] = ownBids
+      .map(l => ({ ...l, side: 'BID' as const }))
       .sort((a, b) => b.price - a.price); // Highest bid first
 
-    // For asks, we use the no side inverted (1 - no_price = yes_ask)
-    // Or we can infer from the spread
-    const asks: OrderbookLevel[] = orderbook.no_dollars
-      .map(([priceStr, qty]) => ({
-        price: 1 - parseFloat(priceStr), // Convert no price to yes ask
-        size: qty,
-        side: 'ASK' as const,
-      }))
+    const asks: OrderbookLevel[] = otherBids
+      .map(l => ({ price: complementPrice(l.price), size: l.size, side: 'ASK' as const }))
       .sort((a, b) => a.price - b.price); // Lowest ask first
 
-    const bestBid = bids[0]?.price ?? 0;
-    const bestAsk = asks[0]?.price ?? 1;
-    const midPrice = (bestBid + bestAsk) / 2;
-    const spread = bestAsk - bestBid;
-    const spreadBps = midPrice > 0 ? (spread / midPrice) * 10000 : 0;
-
-    // Calculate depth in USD (price * quantity for each level)
-    const bidDepthUsd = bids.reduce((sum, l) => sum + l.price * l.size, 0);
-    const askDepthUsd = asks.reduce((sum, l) => sum + l.price * l.size, 0);
-
-    return {
-      venue: 'KALSHI',
-      market_id: ticker,
-      timestamp: new Date().toISOString(),
-      best_bid: bestBid,
-      best_ask: bestAsk,
-      mid_price: midPrice,
-      spread,
-      spread_bps: spreadBps,
-      bid_depth_usd: bidDepthUsd,
-      ask_depth_usd: askDepthUsd,
-      levels: [...bids, ...asks],
-    };
+    return buildOrderbookSnapshot(
+      'KALSHI',
+      ticker,
+      response.timestamp ?? (at ? new Date(at).toISOString() : new Date().toISOString()),
+      bids,
+      asks,
+      outcome
+    );
   }
 
   /**
    * Parse Polymarket orderbook response
    * 
-   * Polymarket uses 0-1 prices directly
+   * Polymarket uses 0-1 prices directly. Each outcome has its own token and
+   * book, so `outcome` only labels which outcome `tokenId` is.
    */
-  private parsePolymarketOrderbook(tokenId: string, response: PolymarketOrderbookResponse): OrderbookSnapshot {
+  private parsePolymarketOrderbook(
+    tokenId: string,
+    response: PolymarketOrderbookResponse,
+    outcome: Outcome = 'YES'
+  ): OrderbookSnapshot {
     const bids: OrderbookLevel[] = response.bids
       .map(b => ({
         price: parseFloat(b.price),
@@ -167,29 +360,7 @@ export class ReplayLabsClient {
       }))
       .sort((a, b) => a.price - b.price);
 
-    const bestBid = bids[0]?.price ?? 0;
-    const bestAsk = asks[0]?.price ?? 1;
-    const midPrice = (bestBid + bestAsk) / 2;
-    const spread = bestAsk - bestBid;
-    const spreadBps = midPrice > 0 ? (spread / midPrice) * 10000 : 0;
-
-    // Depth in USD (assuming each share = $1 at resolution)
-    const bidDepthUsd = bids.reduce((sum, l) => sum + l.price * l.size, 0);
-    const askDepthUsd = asks.reduce((sum, l) => sum + l.price * l.size, 0);
-
-    return {
-      venue: 'POLYMARKET',
-      market_id: tokenId,
-      timestamp: response.timestamp,
-      best_bid: bestBid,
-      best_ask: bestAsk,
-      mid_price: midPrice,
-      spread,
-      spread_bps: spreadBps,
-      bid_depth_usd: bidDepthUsd,
-      ask_depth_usd: askDepthUsd,
-      levels: [...bids, ...asks],
-    };
+    return buildOrderbookSnapshot('POLYMARKET', tokenId, response.timestamp, bids, asks, outcome);
   }
 }
 
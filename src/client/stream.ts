@@ -0,0 +1,530 @@
+/**
+ * Streaming Orderbook Client
+ *
+ * Maintains local orderbooks from a Replay Labs WebSocket feed:
+ * - Each subscription starts from a full snapshot, then applies deltas
+ * - Deltas carry a per-market sequence number; a gap marks the book stale
+ *   and triggers a resync (fresh snapshot) instead of serving a wrong book
+ * - Reconnects with backoff and resubscribes every market after a drop
+ *
+ * Wire protocol (JSON text frames):
+ *   client → { type: 'auth', api_key }
+ *   client → { type: 'subscribe' | 'unsubscribe', venue, market_id }
+ *   server → { type: 'snapshot', venue, market_id, seq, timestamp, bids: [[price, size]], asks: [[price, size]] }
+ *   server → { type: 'delta', venue, market_id, seq, timestamp, changes: [{ side, price, size }] }
+ *   server → { type: 'error', message, venue?, market_id? }
+ *
+ * Prices are YES prices in dollars (0-1). A delta with size 0 removes the level.
+ */
+
+import { EventEmitter } from 'node:events';
+import type { Venue, OrderbookSnapshot } from '../types';
+import { buildOrderbookSnapshot } from '../orderbook';
+import { sleep } from './rate-limiter';
+import { InvalidParamsError, OracleError, OrderbookStreamError, OrderbookUnavailableError } from '../errors';
+
+/**
+ * Minimal WebSocket surface used by the stream (browser/Node WebSocket and `ws` both fit)
+ */
+export interface StreamSocket {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'open' | 'close' | 'error', listener: () => void): void;
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+}
+
+export type WebSocketFactory = (url: string) => StreamSocket;
+
+export interface OrderbookStreamConfig {
+  /** WebSocket endpoint */
+  url: string;
+  /** Sent in an auth message as soon as the socket opens */
+  apiKey?: string;
+  /** Socket constructor (default: global WebSocket) */
+  webSocketFactory?: WebSocketFactory;
+  /** Reconnect after an unexpected close (default true) */
+  reconnect?: boolean;
+  /** First reconnect delay in ms, doubled per failed attempt (default 500) */
+  reconnectBaseDelayMs?: number;
+  /** Upper bound for the reconnect delay in ms (default 10000) */
+  reconnectMaxDelayMs?: number;
+}
+
+/**
+ * A synced local book
+ */
+export interface StreamedOrderbook {
+  snapshot: OrderbookSnapshot;
+  /** Sequence number of the last applied message */
+  seq: number;
+  /** Time since the last applied message, in ms */
+  age_ms: number;
+}
+
+/**
+ * Emitted when a delta skips ahead of the local book
+ */
+export interface SequenceGap {
+  venue: Venue;
+  market_id: string;
+  expected_seq: number;
+  received_seq: number;
+}
+
+type RawLevel = [number | string, number | string];
+
+interface SnapshotMessage {
+  type: 'snapshot';
+  venue: Venue;
+  market_id: string;
+  seq: number;
+  timestamp?: string;
+  bids: RawLevel[];
+  asks: RawLevel[];
+}
+
+interface DeltaMessage {
+  type: 'delta';
+  venue: Venue;
+  market_id: string;
+  seq: number;
+  timestamp?: string;
+  changes: { side: 'BID' | 'ASK'; price: number | string; size: number | string }[];
+}
+
+interface ErrorMessage {
+  type: 'error';
+  message: string;
+  venue?: Venue;
+  market_id?: string;
+}
+
+type StreamMessage = SnapshotMessage | DeltaMessage | ErrorMessage;
+
+interface LocalBook {
+  venue: Venue;
+  market_id: string;
+  seq: number;
+  timestamp: string;
+  /** price → size */
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  /** False until the first snapshot, and again after a gap or disconnect */
+  synced: boolean;
+  updated_at_ms: number;
+  /** Built on read, dropped on every change */
+  snapshot?: OrderbookSnapshot;
+}
+
+interface PendingSubscribe {
+  resolve: (snapshot: OrderbookSnapshot) => void;
+  reject: (err: unknown) => void;
+}
+
+function bookKey(venue: Venue, marketId: string): string {
+  return `${venue}:${marketId}`;
+}
+
+function defaultWebSocketFactory(url: string): StreamSocket {
+  const WebSocketImpl = (globalThis as { WebSocket?: new (url: string) => StreamSocket }).WebSocket;
+  if (!WebSocketImpl) {
+    throw new InvalidParamsError(
+      'No WebSocket implementation available. Pass webSocketFactory (e.g. from the ws package).',
+      'webSocketFactory'
+    );
+  }
+  return new WebSocketImpl(url);
+}
+
+/**
+ * Orderbook stream
+ *
+ * Events: 'open', 'close', 'snapshot' (StreamedOrderbook), 'update' (StreamedOrderbook),
+ * 'gap' (SequenceGap), 'error' (OrderbookStreamError, or OrderbookUnavailableError for
+ * one market; only emitted when a listener is attached).
+ */
+export class OrderbookStream extends EventEmitter {
+  private url: string;
+  private apiKey?: string;
+  private socketFactory: WebSocketFactory;
+  private reconnectEnabled: boolean;
+  private reconnectBaseDelayMs: number;
+  private reconnectMaxDelayMs: number;
+
+  private socket: StreamSocket | null = null;
+  private connecting: Promise<void> | null = null;
+  private open = false;
+  private closed = false;
+  private reconnectController: AbortController | null = null;
+
+  private books: Map<string, LocalBook> = new Map();
+  private pending: Map<string, PendingSubscribe[]> = new Map();
+
+  constructor(config: OrderbookStreamConfig) {
+    super();
+    this.url = config.url;
+    this.apiKey = config.apiKey;
+    this.socketFactory = config.webSocketFactory ?? defaultWebSocketFactory;
+    this.reconnectEnabled = config.reconnect ?? true;
+    this.reconnectBaseDelayMs = config.reconnectBaseDelayMs ?? 500;
+    this.reconnectMaxDelayMs = config.reconnectMaxDelayMs ?? 10_000;
+  }
+
+  /**
+   * Open the socket (resolves once connected; no-op if already open)
+   */
+  connect(): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new OrderbookStreamError('Orderbook stream closed', this.url));
+    }
+    if (this.open) return Promise.resolve();
+    this.connecting ??= this.openSocket().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  /**
+   * Subscribe to a market's book
+   *
+   * Resolves with the first snapshot. Later updates are applied in the
+   * background; read them with getBook().
+   */
+  async subscribe(venue: Venue, marketId: string, options?: { signal?: AbortSignal }): Promise<OrderbookSnapshot> {
+    options?.signal?.throwIfAborted();
+    const key = bookKey(venue, marketId);
+
+    const existing = this.books.get(key);
+    if (existing?.synced) return this.buildSnapshot(existing);
+
+    const isNew = !existing;
+    if (isNew) {
+      this.books.set(key, {
+        venue,
+        market_id: marketId,
+        seq: 0,
+        timestamp: new Date().toISOString(),
+        bids: new Map(),
+        asks: new Map(),
+        synced: false,
+        updated_at_ms: 0,
+      });
+    }
+
+    const snapshot = new Promise<OrderbookSnapshot>((resolve, reject) => {
+      const waiter: PendingSubscribe = { resolve, reject };
+      const waiters = this.pending.get(key) ?? [];
+      waiters.push(waiter);
+      this.pending.set(key, waiters);
+
+      const signal = options?.signal;
+      if (signal) {
+        const abort = () => {
+          this.removeWaiter(key, waiter);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', abort, { once: true });
+        const cleanup = () => signal.removeEventListener('abort', abort);
+        waiter.resolve = value => { cleanup(); resolve(value); };
+        waiter.reject = err => { cleanup(); reject(err); };
+      }
+    });
+
+    if (this.open) {
+      if (isNew) this.send({ type: 'subscribe', venue, market_id: marketId });
+    } else {
+      // Opening the socket subscribes every tracked book
+      this.connect().catch(err => {
+        // A book that never synced is not kept for the next connect
+        if (this.books.get(key)?.updated_at_ms === 0) this.books.delete(key);
+        this.rejectWaiters(key, err);
+      });
+    }
+    return snapshot;
+  }
+
+  /**
+   * Stop tracking a market
+   */
+  unsubscribe(venue: Venue, marketId: string): void {
+    const key = bookKey(venue, marketId);
+    if (!this.books.delete(key)) return;
+    this.rejectWaiters(key, new OrderbookUnavailableError(venue, marketId, `Unsubscribed from ${key}`));
+    if (this.open) {
+      this.send({ type: 'unsubscribe', venue, market_id: marketId });
+    }
+  }
+
+  /**
+   * Current local book, or undefined if not subscribed or not in sync
+   */
+  getBook(venue: Venue, marketId: string): StreamedOrderbook | undefined {
+    const book = this.books.get(bookKey(venue, marketId));
+    if (!book?.synced) return undefined;
+    return {
+      snapshot: this.buildSnapshot(book),
+      seq: book.seq,
+      age_ms: Date.now() - book.updated_at_ms,
+    };
+  }
+
+  /**
+   * Markets currently subscribed
+   */
+  getSubscriptions(): { venue: Venue; market_id: string; synced: boolean }[] {
+    return [...this.books.values()].map(b => ({ venue: b.venue, market_id: b.market_id, synced: b.synced }));
+  }
+
+  isConnected(): boolean {
+    return this.open;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Close the socket for good (pending subscribes reject, no reconnect)
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.reconnectController?.abort();
+    for (const key of this.pending.keys()) {
+      this.rejectWaiters(key, new OrderbookStreamError('Orderbook stream closed', this.url));
+    }
+    this.books.clear();
+    const socket = this.socket;
+    this.socket = null;
+    this.open = false;
+    socket?.close();
+  }
+
+  private openSocket(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let socket: StreamSocket;
+      try {
+        socket = this.socketFactory(this.url);
+      } catch (err) {
+        reject(err instanceof OracleError
+          ? err
+          : new OrderbookStreamError(`Orderbook stream connection failed: ${this.url}`, this.url, { cause: err }));
+        return;
+      }
+      this.socket = socket;
+      let settled = false;
+
+      socket.addEventListener('open', () => {
+        if (this.socket !== socket) return;
+        settled = true;
+        this.open = true;
+        if (this.apiKey) {
+          this.send({ type: 'auth', api_key: this.apiKey });
+        }
+        for (const book of this.books.values()) {
+          this.send({ type: 'subscribe', venue: book.venue, market_id: book.market_id });
+        }
+        this.emit('open');
+        resolve();
+      });
+
+      socket.addEventListener('message', event => {
+        if (this.socket !== socket) return;
+        this.handleMessage(event.data);
+      });
+
+      socket.addEventListener('error', () => {
+        if (this.socket !== socket || settled) return;
+        settled = true;
+        this.socket = null;
+        reject(new OrderbookStreamError(`Orderbook stream connection failed: ${this.url}`, this.url));
+      });
+
+      socket.addEventListener('close', () => {
+        const current = this.socket === socket;
+        if (current) {
+          this.socket = null;
+          this.open = false;
+        }
+        if (!settled) {
+          settled = true;
+          reject(new OrderbookStreamError(
+            this.closed ? 'Orderbook stream closed' : `Orderbook stream connection failed: ${this.url}`,
+            this.url
+          ));
+        } else if (current) {
+          this.handleDisconnect();
+        }
+      });
+    });
+  }
+
+  /**
+   * Unexpected close: every book is stale until the resubscribe snapshot arrives
+   */
+  private handleDisconnect(): void {
+    for (const book of this.books.values()) {
+      book.synced = false;
+    }
+    this.emit('close');
+
+    if (!this.reconnectEnabled || this.closed) {
+      for (const key of this.pending.keys()) {
+        this.rejectWaiters(key, new OrderbookStreamError('Orderbook stream disconnected', this.url));
+      }
+      return;
+    }
+    void this.reconnectLoop();
+  }
+
+  private async reconnectLoop(): Promise<void> {
+    const controller = new AbortController();
+    this.reconnectController = controller;
+
+    for (let attempt = 0; !this.closed; attempt++) {
+      const delay = Math.min(this.reconnectMaxDelayMs, this.reconnectBaseDelayMs * 2 ** attempt);
+      try {
+        await sleep(delay, controller.signal);
+        await this.connect();
+        return;
+      } catch {
+        if (controller.signal.aborted) return;
+      }
+    }
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: StreamMessage;
+    try {
+      message = JSON.parse(String(data)) as StreamMessage;
+    } catch (err) {
+      this.emitError(new OrderbookStreamError('Orderbook stream sent invalid JSON', this.url, { cause: err }));
+      return;
+    }
+
+    switch (message.type) {
+      case 'snapshot':
+        this.applySnapshot(message);
+        break;
+      case 'delta':
+        this.applyDelta(message);
+        break;
+      case 'error': {
+        const err = message.venue
+          ? new OrderbookUnavailableError(message.venue, message.market_id, `Orderbook stream error: ${message.message}`)
+          : new OrderbookStreamError(`Orderbook stream error: ${message.message}`, this.url);
+        if (message.venue && message.market_id) {
+          const key = bookKey(message.venue, message.market_id);
+          // A subscription that never synced was refused - stop tracking it
+          if (this.books.get(key)?.synced === false && this.pending.has(key)) {
+            this.books.delete(key);
+          }
+          this.rejectWaiters(key, err);
+        }
+        this.emitError(err);
+        break;
+      }
+    }
+  }
+
+  private applySnapshot(message: SnapshotMessage): void {
+    const key = bookKey(message.venue, message.market_id);
+    const book = this.books.get(key);
+    if (!book) return; // Not subscribed (late message after unsubscribe)
+
+    book.bids = new Map(message.bids.map(([p, s]) => [Number(p), Number(s)]));
+    book.asks = new Map(message.asks.map(([p, s]) => [Number(p), Number(s)]));
+    book.seq = message.seq;
+    book.timestamp = message.timestamp ?? new Date().toISOString();
+    book.synced = true;
+    book.updated_at_ms = Date.now();
+    book.snapshot = undefined;
+
+    const snapshot = this.buildSnapshot(book);
+    const waiters = this.pending.get(key) ?? [];
+    this.pending.delete(key);
+    for (const waiter of waiters) waiter.resolve(snapshot);
+
+    this.emit('snapshot', { snapshot, seq: book.seq, age_ms: 0 } satisfies StreamedOrderbook);
+  }
+
+  private applyDelta(message: DeltaMessage): void {
+    const book = this.books.get(bookKey(message.venue, message.market_id));
+    // Deltas before the first snapshot (or while resyncing) have nothing to apply to
+    if (!book?.synced) return;
+    // Already applied (e.g. replayed after a resync)
+    if (message.seq <= book.seq) return;
+
+    if (message.seq !== book.seq + 1) {
+      book.synced = false;
+      this.emit('gap', {
+        venue: book.venue,
+        market_id: book.market_id,
+        expected_seq: book.seq + 1,
+        received_seq: message.seq,
+      } satisfies SequenceGap);
+      if (this.open) {
+        this.send({ type: 'subscribe', venue: book.venue, market_id: book.market_id });
+      }
+      return;
+    }
+
+    for (const change of message.changes) {
+      const levels = change.side === 'BID' ? book.bids : book.asks;
+      const price = Number(change.price);
+      const size = Number(change.size);
+      if (size > 0) {
+        levels.set(price, size);
+      } else {
+        levels.delete(price);
+      }
+    }
+    book.seq = message.seq;
+    book.timestamp = message.timestamp ?? new Date().toISOString();
+    book.updated_at_ms = Date.now();
+    book.snapshot = undefined;
+
+    this.emit('update', { snapshot: this.buildSnapshot(book), seq: book.seq, age_ms: 0 } satisfies StreamedOrderbook);
+  }
+
+  private buildSnapshot(book: LocalBook): OrderbookSnapshot {
+    book.snapshot ??= buildOrderbookSnapshot(
+      book.venue,
+      book.market_id,
+      book.timestamp,
+      [...book.bids]
+        .map(([price, size]) => ({ price, size, side: 'BID' as const }))
+        .sort((a, b) => b.price - a.price),
+      [...book.asks]
+        .map(([price, size]) => ({ price, size, side: 'ASK' as const }))
+        .sort((a, b) => a.price - b.price)
+    );
+    return book.snapshot;
+  }
+
+  private send(message: Record<string, unknown>): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private removeWaiter(key: string, waiter: PendingSubscribe): void {
+    const waiters = this.pending.get(key)?.filter(w => w !== waiter) ?? [];
+    if (waiters.length > 0) {
+      this.pending.set(key, waiters);
+    } else {
+      this.pending.delete(key);
+    }
+  }
+
+  private rejectWaiters(key: string, err: unknown): void {
+    const waiters = this.pending.get(key) ?? [];
+    this.pending.delete(key);
+    for (const waiter of waiters) waiter.reject(err);
+  }
+
+  private emitError(err: Error): void {
+    // EventEmitter throws on unhandled 'error' - only emit when someone listens
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', err);
+    }
+  }
+}
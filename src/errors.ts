@@ -0,0 +1,201 @@
+/**
+ * Error Types
+ *
+ * Every error the oracle raises on purpose is an OracleError with a stable,
+ * machine-readable `code`. Branch on `code` (or instanceof) rather than on
+ * message text, which may change.
+ */
+
+import type { Venue, ParamDiagnostic } from './types';
+
+export type OracleErrorCode =
+  | 'UNSUPPORTED_VENUE'
+  | 'INVALID_PARAMS'
+  | 'INVALID_SCHEDULE'
+  | 'ORDERBOOK_UNAVAILABLE'
+  | 'UPSTREAM_HTTP_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'INSUFFICIENT_LIQUIDITY'
+  | 'STALE_DATA'
+  | 'GAS_PRICE_UNAVAILABLE'
+  | 'STREAM_ERROR';
+
+/**
+ * Base class for all oracle errors
+ */
+export class OracleError extends Error {
+  readonly code: OracleErrorCode;
+
+  constructor(code: OracleErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/**
+ * No calculator (or no orderbook support) for the venue
+ */
+export class UnsupportedVenueError extends OracleError {
+  readonly venue: string;
+
+  constructor(venue: string, message = `No calculator registered for venue: ${venue}`) {
+    super('UNSUPPORTED_VENUE', message);
+    this.venue = venue;
+  }
+}
+
+/**
+ * A request parameter is missing, malformed or out of range
+ */
+export class InvalidParamsError extends OracleError {
+  /** Offending parameter (e.g. 'as_of', 'account_id'); the first one if several */
+  readonly field?: string;
+  /** Every field-level problem found */
+  readonly diagnostics: ParamDiagnostic[];
+
+  constructor(message: string, field?: string, diagnostics?: ParamDiagnostic[]) {
+    super('INVALID_PARAMS', message);
+    this.field = field;
+    this.diagnostics = diagnostics
+      ?? (field ? [{ field, severity: 'error', code: 'INVALID_VALUE', message }] : []);
+  }
+}
+
+/**
+ * A fee schedule definition failed validation
+ */
+export class InvalidScheduleError extends OracleError {
+  /** Individual validation failures */
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super('INVALID_SCHEDULE', errors.length > 0 ? `${message}:\n  ${errors.join('\n  ')}` : message);
+    this.errors = errors;
+  }
+}
+
+/**
+ * No orderbook could be obtained (no data source configured, or the fetch failed)
+ */
+export class OrderbookUnavailableError extends OracleError {
+  readonly venue: Venue;
+  readonly market_id?: string;
+
+  constructor(venue: Venue, marketId: string | undefined, message: string, options?: { cause?: unknown }) {
+    super('ORDERBOOK_UNAVAILABLE', message, options);
+    this.venue = venue;
+    this.market_id = marketId;
+  }
+}
+
+/**
+ * Replay Labs answered with a non-2xx status
+ */
+export class UpstreamHttpError extends OracleError {
+  readonly status: number;
+  readonly status_text: string;
+  /** Response body (truncated), when it could be read */
+  readonly body?: string;
+  /** Request path */
+  readonly path: string;
+
+  constructor(status: number, statusText: string, path: string, body?: string) {
+    super('UPSTREAM_HTTP_ERROR', `Replay Labs API error: ${status} ${statusText}`);
+    this.status = status;
+    this.status_text = statusText;
+    this.path = path;
+    this.body = body;
+  }
+}
+
+/**
+ * A Replay Labs request did not complete within the timeout
+ */
+export class UpstreamTimeoutError extends OracleError {
+  readonly timeout_ms: number;
+  readonly path: string;
+
+  constructor(timeoutMs: number, path: string) {
+    super('UPSTREAM_TIMEOUT', `Replay Labs API timeout after ${timeoutMs}ms: ${path}`);
+    this.timeout_ms = timeoutMs;
+    this.path = path;
+  }
+}
+
+/**
+ * The orderbook stream's socket failed, dropped or sent an unreadable message
+ */
+export class OrderbookStreamError extends OracleError {
+  /** WebSocket endpoint */
+  readonly url: string;
+
+  constructor(message: string, url: string, options?: { cause?: unknown }) {
+    super('STREAM_ERROR', message, options);
+    this.url = url;
+  }
+}
+
+/**
+ * A live gas price or native token price could not be obtained
+ */
+export class GasPriceUnavailableError extends OracleError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('GAS_PRICE_UNAVAILABLE', message, options);
+  }
+}
+
+/**
+ * A gas price quote did not complete within the feed's timeout
+ */
+export class GasPriceTimeoutError extends OracleError {
+  readonly timeout_ms: number;
+
+  constructor(timeoutMs: number) {
+    super('UPSTREAM_TIMEOUT', `Gas price quote timed out after ${timeoutMs}ms`);
+    this.timeout_ms = timeoutMs;
+  }
+}
+
+/**
+ * The visible book cannot fill the requested size
+ */
+export class InsufficientLiquidityError extends OracleError {
+  readonly venue: Venue;
+  readonly market_id?: string;
+  readonly requested_usd: number;
+  readonly available_usd: number;
+
+  constructor(venue: Venue, marketId: string | undefined, requestedUsd: number, availableUsd: number) {
+    super(
+      'INSUFFICIENT_LIQUIDITY',
+      `Insufficient liquidity on ${venue}${marketId ? ` ${marketId}` : ''}: ` +
+        `requested $${requestedUsd.toFixed(2)}, book holds $${availableUsd.toFixed(2)}`
+    );
+    this.venue = venue;
+    this.market_id = marketId;
+    this.requested_usd = requestedUsd;
+    this.available_usd = availableUsd;
+  }
+}
+
+/**
+ * The only available data is older than the caller accepts
+ */
+export class StaleDataError extends OracleError {
+  readonly venue: Venue;
+  readonly market_id?: string;
+  readonly age_ms: number;
+  readonly max_age_ms: number;
+
+  constructor(venue: Venue, marketId: string | undefined, ageMs: number, maxAgeMs: number) {
+    super(
+      'STALE_DATA',
+      `Stale orderbook for ${venue}${marketId ? ` ${marketId}` : ''}: age ${ageMs}ms exceeds ${maxAgeMs}ms`
+    );
+    this.venue = venue;
+    this.market_id = marketId;
+    this.age_ms = ageMs;
+    this.max_age_ms = maxAgeMs;
+  }
+}
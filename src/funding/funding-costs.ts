@@ -0,0 +1,137 @@
+/**
+ * Funding Costs
+ *
+ * Prices moving capital in and out of a venue: deposit and withdrawal fees
+ * per method (bank rails, cards, USDC on-chain and bridged) and the cost of
+ * redeeming settled positions. Trading fees say what a trade costs on the
+ * venue; funding costs say what it costs to get the money there and back.
+ * On-chain steps name a gas operation instead of a fixed fee, so they are
+ * priced by the same gas model as trades.
+ */
+
+import type { Venue, FundingRoute, FundingCostEstimate, GasOperation } from '../types';
+import { GAS_OPERATIONS } from '../types';
+import fundingSchedule from '../schedules/funding.json';
+import { InvalidParamsError, InvalidScheduleError } from '../errors';
+
+/**
+ * Fee for one funding method: fixed + pct of the amount, clamped to [min, max],
+ * plus the gas for `gas_operation` when the step is on-chain
+ */
+export interface FundingMethodFee {
+  fixed_usd?: number;
+  pct?: number;
+  min_usd?: number;
+  max_usd?: number;
+  gas_operation?: GasOperation;
+  description?: string;
+}
+
+/** Gas cost of one on-chain operation, USD */
+export type FundingGasPricer = (operation: GasOperation) => number;
+
+export interface VenueFundingSchedule {
+  deposit: Record<string, FundingMethodFee>;
+  withdrawal: Record<string, FundingMethodFee>;
+  redeem?: FundingMethodFee;
+}
+
+export interface FundingScheduleDefinition {
+  version: string;
+  updated_at?: string;
+  source?: string;
+  disclaimer?: string;
+  venues: Partial<Record<Venue, VenueFundingSchedule>>;
+}
+
+export class FundingCostCalculator {
+  private schedule: FundingScheduleDefinition;
+
+  constructor(schedule: FundingScheduleDefinition = fundingSchedule as FundingScheduleDefinition) {
+    for (const [venue, fees] of Object.entries(schedule.venues)) {
+      const all = [...Object.values(fees.deposit), ...Object.values(fees.withdrawal), ...(fees.redeem ? [fees.redeem] : [])];
+      if (all.some(f => (f.fixed_usd ?? 0) < 0 || (f.pct ?? 0) < 0)) {
+        throw new InvalidScheduleError(`Invalid funding schedule ${schedule.version}: ${venue} fees must be non-negative`);
+      }
+      const unknown = all.find(f => f.gas_operation !== undefined && !GAS_OPERATIONS.includes(f.gas_operation));
+      if (unknown) {
+        throw new InvalidScheduleError(`Invalid funding schedule ${schedule.version}: unknown gas operation ${unknown.gas_operation}`);
+      }
+    }
+    this.schedule = schedule;
+  }
+
+  getSchedule(): FundingScheduleDefinition {
+    return this.schedule;
+  }
+
+  /**
+   * Method names available for a venue and direction
+   */
+  methods(venue: Venue, direction: 'deposit' | 'withdrawal'): string[] {
+    return Object.keys(this.schedule.venues[venue]?.[direction] ?? {});
+  }
+
+  /**
+   * Cost of funding `amountUsd` on a venue along `route`
+   * 
+   * `gasCost` prices steps that name a gas operation; without it they count
+   * only their fixed and pct parts, and the assumptions say so.
+   */
+  estimate(venue: Venue, amountUsd: number, route: FundingRoute = {}, gasCost?: FundingGasPricer): FundingCostEstimate {
+    if (!(amountUsd >= 0)) {
+      throw new InvalidParamsError(`Funding amount must be a non-negative number: ${amountUsd}`, 'amount_usd');
+    }
+    const fees = this.schedule.venues[venue];
+    if (!fees) {
+      throw new InvalidParamsError(`No funding schedule for venue: ${venue}`, 'venue');
+    }
+
+    const assumptions: string[] = [];
+    const cost = (fee: FundingMethodFee, label: string): number => {
+      if (fee.gas_operation === undefined) return methodCost(fee, amountUsd);
+      if (!gasCost) {
+        assumptions.push(`${label}: ${fee.gas_operation} gas not priced (no gas estimator)`);
+        return methodCost(fee, amountUsd);
+      }
+      return methodCost(fee, amountUsd) + gasCost(fee.gas_operation);
+    };
+    const step = (direction: 'deposit' | 'withdrawal', method: string | undefined): number => {
+      if (method === undefined) return 0;
+      const fee = fees[direction][method];
+      if (!fee) {
+        throw new InvalidParamsError(
+          `Unknown ${venue} ${direction} method: ${method} (expected ${this.methods(venue, direction).join(', ')})`,
+          `${direction}_method`
+        );
+      }
+      const usd = cost(fee, `${venue} ${direction}`);
+      assumptions.push(`${venue} ${direction} via ${fee.description ?? method}: $${usd.toFixed(2)}`);
+      return usd;
+    };
+
+    const deposit = step('deposit', route.deposit_method);
+    const withdrawal = step('withdrawal', route.withdrawal_method);
+    const redeem = route.redeem !== false && fees.redeem ? cost(fees.redeem, `${venue} redeem`) : 0;
+    if (redeem > 0) {
+      assumptions.push(`${venue} redeem: $${redeem.toFixed(4)}`);
+    }
+
+    return {
+      venue,
+      amount_usd: amountUsd,
+      deposit_method: route.deposit_method,
+      deposit_fee_usd: deposit,
+      withdrawal_method: route.withdrawal_method,
+      withdrawal_fee_usd: withdrawal,
+      redeem_fee_usd: redeem,
+      total_usd: deposit + withdrawal + redeem,
+      assumptions,
+    };
+  }
+}
+
+function methodCost(fee: FundingMethodFee, amountUsd: number): number {
+  const raw = (fee.fixed_usd ?? 0) + amountUsd * ((fee.pct ?? 0) / 100);
+  return Math.min(Math.max(raw, fee.min_usd ?? 0), fee.max_usd ?? Infinity);
+}
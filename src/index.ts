@@ -41,12 +41,47 @@ export {
   initOracleWithReplayLabs,
   type CostOracleConfig,
   type CostEstimateParams,
+  type ArbitrageOptions,
+  type MaxSizeConstraints,
+  type MaxSizeOptions,
+  type RouteMarket,
+  type EventLeg,
+  type RouteOrderParams,
+  type ExecutionPlanParams,
 } from './oracle';
 
+// Errors
+export {
+  OracleError,
+  UnsupportedVenueError,
+  InvalidParamsError,
+  InvalidScheduleError,
+  OrderbookUnavailableError,
+  UpstreamHttpError,
+  UpstreamTimeoutError,
+  OrderbookStreamError,
+  GasPriceUnavailableError,
+  GasPriceTimeoutError,
+  InsufficientLiquidityError,
+  StaleDataError,
+  type OracleErrorCode,
+} from './errors';
+
+// Parameter validation
+export {
+  validateEstimateParams,
+  assertValidEstimateParams,
+  orderbookIdField,
+  type ValidateParamsOptions,
+  type ValidatedParams,
+  type ParamValidationResult,
+} from './validation';
+
 // Types
 export type {
   Venue,
   OrderType,
+  Outcome,
   Confidence,
   CostEstimateMode,
   FeeEstimateMode,  // Backwards compatibility alias
@@ -59,14 +94,39 @@ export type {
   VolumeTier,
   TradeLeg,
   ArbitrageAnalysis,
+  ArbitrageLegFill,
+  ArbitrageScenario,
+  BinaryArbitrageAnalysis,
+  FundingRoute,
+  FundingCostEstimate,
+  MaxSizeBinding,
+  MaxSizeResult,
+  RouteAllocation,
+  RouteResult,
+  BlendedCost,
+  ExecutionCostSummary,
+  ExecutionSlice,
+  ExecutionPlan,
+  AccountFeeProfile,
+  MarketMetadata,
+  MarketMetadataProvider,
+  FeeClassification,
+  GasOperation,
+  GasPriceQuote,
+  GasEstimate,
+  MakerRebateEstimate,
+  AccountVenueRates,
   OrderbookSnapshot,
   OrderbookLevel,
+  ParamDiagnostic,
+  AppliedDefault,
 } from './types';
 
 // Venue utilities
 export { 
   VENUE_INFO, 
   SUPPORTED_VENUES, 
+  GAS_OPERATIONS,
   canArbitrage 
 } from './types';
 
@@ -74,22 +134,132 @@ export {
 export {
   BaseFeeCalculator,
   type FeeCalculator,
+  type FeeEstimateContext,
   KalshiFeeCalculator,
+  type KalshiMarketClassification,
+  type KalshiScheduleDefinition,
   PolymarketFeeCalculator,
+  type PolymarketScheduleDefinition,
+  FormulaFeeCalculator,
+  evaluateFeeRule,
+  validateScheduleDefinition,
+  parseScheduleDefinition,
+  type FeeRule,
+  type FeeRuleSet,
+  type FormulaScheduleDefinition,
 } from './calculators';
 
 // Cost calculation utilities
 export {
   calculateSlippage,
+  calculateSlippageByContracts,
+  calculatePassiveOrderCost,
+  exponentialFillCurve,
   calculateSpreadCost,
   estimateSpreadCost,
   estimateSlippage,
+  type FillProbabilityCurve,
+  type PassiveOrderModel,
+  type PassiveOrderResult,
 } from './calculators/cost-calculator';
 
+// Execution schedules
+export {
+  simulateExecutionSchedule,
+  calibrateResiliency,
+  type ResiliencyModel,
+  type SimulatedSlice,
+} from './calculators/execution-schedule';
+
+// Schedule history
+export { ScheduleHistory, type ScheduleVersion } from './schedules/history';
+
+// Volume tracking
+export {
+  VolumeLedger,
+  selectVolumeTier,
+  type VolumeRecord,
+  type VolumeLedgerConfig,
+  type VolumeTierSelection,
+} from './accounts/volume-ledger';
+
 // Replay Labs client
 export {
   ReplayLabsClient,
   getReplayLabsClient,
   initReplayLabsClient,
   type ReplayLabsConfig,
+  type OrderbookRequestOptions,
+  type PolymarketMarketResponse,
 } from './client/replay-labs';
+
+// Funding costs
+export {
+  FundingCostCalculator,
+  type FundingGasPricer,
+  type FundingMethodFee,
+  type FundingScheduleDefinition,
+  type VenueFundingSchedule,
+} from './funding/funding-costs';
+
+// Gas prices
+export {
+  GasPriceFeed,
+  jsonRpcGasPriceSource,
+  coinGeckoPolUsdSource,
+  type GasPriceFeedConfig,
+  type GasPriceSource,
+  type NativeUsdSource,
+} from './client/gas-price';
+
+// Orderbook helpers
+export {
+  buildOrderbookSnapshot,
+  invertOrderbook,
+  orderbookForOutcome,
+  complementPrice,
+} from './orderbook';
+
+// Streaming orderbooks
+export {
+  OrderbookStream,
+  type OrderbookStreamConfig,
+  type StreamedOrderbook,
+  type SequenceGap,
+  type StreamSocket,
+  type WebSocketFactory,
+} from './client/stream';
+
+// Market registry
+export {
+  MarketRegistry,
+  venueOutcome,
+  type MarketEvent,
+  type VenueMarket,
+} from './markets/registry';
+
+// Arbitrage scanner
+export {
+  ArbitrageScanner,
+  type ArbitrageScannerConfig,
+  type WatchedPair,
+  type ArbitrageOpportunityEvent,
+  type ScanFailure,
+  type ScanSummary,
+} from './scanner/arbitrage-scanner';
+
+// Orderbook cache
+export {
+  OrderbookCache,
+  type OrderbookCacheConfig,
+  type OrderbookCacheOptions,
+  type OrderbookFetcher,
+  type CachedOrderbook,
+} from './client/orderbook-cache';
+
+// Rate limiting
+export {
+  TokenBucket,
+  getRateLimiter,
+  type RateLimitConfig,
+} from './client/rate-limiter';
@@ -0,0 +1,197 @@
+/**
+ * Market Registry
+ * 
+ * Maps events to the venue markets that trade them, so a Kalshi ticker and a
+ * Polymarket token can be recognized as the same event. Each venue market
+ * records its outcome polarity: INVERTED means the venue's YES pays when the
+ * event resolves NO. The registry persists to a local JSON file.
+ */
+
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import type { Venue, Outcome } from '../types';
+import { InvalidParamsError } from '../errors';
+
+const FILE_VERSION = 1;
+
+/**
+ * One venue's market for an event
+ */
+export interface VenueMarket {
+  venue: Venue;
+  /** Kalshi market ticker / Polymarket condition id */
+  market_id?: string;
+  /** Polymarket outcome tokens, keyed by this market's own outcome */
+  token_ids?: Partial<Record<Outcome, string>>;
+  /** SAME: the venue's YES is the event's YES (default). INVERTED: it is the event's NO. */
+  polarity?: 'SAME' | 'INVERTED';
+}
+
+/**
+ * An event and the equivalent markets that trade it
+ */
+export interface MarketEvent {
+  event_id: string;
+  title?: string;
+  /** Expected resolution time (ISO 8601) */
+  resolution_date?: string;
+  /** Where the outcome is determined (e.g. "NFL official results") */
+  resolution_source?: string;
+  markets: VenueMarket[];
+}
+
+interface RegistryFile {
+  version: number;
+  events: MarketEvent[];
+}
+
+export class MarketRegistry {
+  private events: Map<string, MarketEvent> = new Map();
+  
+  constructor(events: MarketEvent[] = []) {
+    for (const event of events) this.add(event);
+  }
+  
+  /**
+   * Load a registry file (a missing file gives an empty registry)
+   */
+  static async load(path: string): Promise<MarketRegistry> {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new MarketRegistry();
+      throw err;
+    }
+    return MarketRegistry.fromJSON(JSON.parse(text) as unknown);
+  }
+  
+  /**
+   * Registry from parsed file contents
+   */
+  static fromJSON(data: unknown): MarketRegistry {
+    const file = data as Partial<RegistryFile> | null;
+    if (!file || file.version !== FILE_VERSION || !Array.isArray(file.events)) {
+      throw new InvalidParamsError(`Unsupported market registry file (expected version ${FILE_VERSION})`, 'registry');
+    }
+    return new MarketRegistry(file.events);
+  }
+  
+  /**
+   * Write the registry to `path` (via a temp file, so readers never see half a file)
+   */
+  async save(path: string): Promise<void> {
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(this.toJSON(), null, 2) + '\n', 'utf8');
+    await rename(tmp, path);
+  }
+  
+  toJSON(): RegistryFile {
+    return { version: FILE_VERSION, events: this.list() };
+  }
+  
+  /**
+   * Add an event (replaces an existing one with the same id)
+   * 
+   * A venue market may belong to only one event. The registry keeps a copy,
+   * so later changes to `event` do not reach it.
+   */
+  add(event: MarketEvent): void {
+    if (!event || typeof event !== 'object') {
+      throw new InvalidParamsError('Event must be an object', 'event');
+    }
+    if (!event.event_id) {
+      throw new InvalidParamsError('event_id is required', 'event_id');
+    }
+    if (event.resolution_date !== undefined && Number.isNaN(Date.parse(event.resolution_date))) {
+      throw new InvalidParamsError(`Invalid resolution_date: ${event.resolution_date}`, 'resolution_date');
+    }
+    if (!Array.isArray(event.markets) || event.markets.length === 0) {
+      throw new InvalidParamsError(`Event ${event.event_id} has no markets`, 'markets');
+    }
+    
+    const venues = new Set<Venue>();
+    for (const market of event.markets) {
+      if (!market || typeof market !== 'object') {
+        throw new InvalidParamsError(`Event ${event.event_id} has a market that is not an object`, 'markets');
+      }
+      if (venues.has(market.venue)) {
+        throw new InvalidParamsError(`Event ${event.event_id} lists ${market.venue} twice`, 'markets');
+      }
+      venues.add(market.venue);
+      if (!market.market_id && !market.token_ids) {
+        throw new InvalidParamsError(`${market.venue} market for ${event.event_id} needs market_id or token_ids`, 'markets');
+      }
+      if (market.polarity !== undefined && market.polarity !== 'SAME' && market.polarity !== 'INVERTED') {
+        throw new InvalidParamsError(
+          `${market.venue} market for ${event.event_id} has polarity ${String(market.polarity)} (expected SAME or INVERTED)`,
+          'polarity'
+        );
+      }
+      for (const ref of refs(market)) {
+        const owner = this.findByMarket(market.venue, ref);
+        if (owner && owner.event_id !== event.event_id) {
+          throw new InvalidParamsError(`${market.venue} ${ref} already belongs to event ${owner.event_id}`, 'markets');
+        }
+      }
+    }
+    
+    this.events.set(event.event_id, copyEvent(event));
+  }
+  
+  /**
+   * Event by id
+   */
+  get(eventId: string): MarketEvent | undefined {
+    return this.events.get(eventId);
+  }
+  
+  /**
+   * Event by id, or InvalidParamsError
+   */
+  require(eventId: string): MarketEvent {
+    const event = this.events.get(eventId);
+    if (!event) {
+      throw new InvalidParamsError(`Unknown event: ${eventId}`, 'event_id');
+    }
+    return event;
+  }
+  
+  remove(eventId: string): boolean {
+    return this.events.delete(eventId);
+  }
+  
+  list(): MarketEvent[] {
+    return Array.from(this.events.values());
+  }
+  
+  /**
+   * Event that a venue market id or token id belongs to
+   */
+  findByMarket(venue: Venue, id: string): MarketEvent | undefined {
+    for (const event of this.events.values()) {
+      const market = event.markets.find(m => m.venue === venue);
+      if (market && refs(market).includes(id)) return event;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Venue outcome that pays when the event resolves `outcome`
+ */
+export function venueOutcome(market: VenueMarket, outcome: Outcome): Outcome {
+  if (market.polarity !== 'INVERTED') return outcome;
+  return outcome === 'YES' ? 'NO' : 'YES';
+}
+
+function copyEvent(event: MarketEvent): MarketEvent {
+  return {
+    ...event,
+    markets: event.markets.map(market => (market.token_ids ? { ...market, token_ids: { ...market.token_ids } } : { ...market })),
+  };
+}
+
+function refs(market: VenueMarket): string[] {
+  const ids = Object.values(market.token_ids ?? {}).filter((id): id is string => !!id);
+  return market.market_id ? [market.market_id, ...ids] : ids;
+}
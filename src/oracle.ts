@@ -13,22 +13,68 @@ import type {
   FeeSchedule, 
   TradeLeg, 
   ArbitrageAnalysis,
+  ArbitrageLegFill,
+  ArbitrageScenario,
+  BinaryArbitrageAnalysis,
+  FundingRoute,
+  FundingCostEstimate,
   TradingCost,
   OrderbookSnapshot,
+  CostBreakdown,
+  FeeBreakdown,
   CostEstimateMode,
+  AccountFeeProfile,
+  MarketMetadata,
+  MarketMetadataProvider,
+  GasPriceQuote,
+  Outcome,
+  OrderType,
+  MaxSizeBinding,
+  MaxSizeResult,
+  Confidence,
+  RouteAllocation,
+  RouteResult,
+  ExecutionCostSummary,
+  ExecutionPlan,
 } from './types';
 import { canArbitrage } from './types';
 import { 
   type FeeCalculator,
+  type FeeEstimateContext,
   KalshiFeeCalculator, 
   PolymarketFeeCalculator,
 } from './calculators';
 import { 
   calculateSlippage, 
+  calculateSlippageByContracts,
+  calculatePassiveOrderCost,
   estimateSpreadCost, 
-  estimateSlippage 
+  estimateSlippage,
+  type PassiveOrderModel,
 } from './calculators/cost-calculator';
+import {
+  simulateExecutionSchedule,
+  calibrateResiliency,
+  type ResiliencyModel,
+  type SimulatedSlice,
+} from './calculators/execution-schedule';
 import { ReplayLabsClient } from './client/replay-labs';
+import { OrderbookCache, raceAbort, type OrderbookCacheConfig, type OrderbookCacheOptions } from './client/orderbook-cache';
+import type { OrderbookStream } from './client/stream';
+import type { GasPriceFeed } from './client/gas-price';
+import { FundingCostCalculator, type FundingGasPricer, type FundingScheduleDefinition } from './funding/funding-costs';
+import { VolumeLedger, type VolumeRecord } from './accounts/volume-ledger';
+import { assertValidEstimateParams, orderbookIdField } from './validation';
+import { orderbookForOutcome } from './orderbook';
+import { MarketRegistry, venueOutcome } from './markets/registry';
+import {
+  OracleError,
+  UnsupportedVenueError,
+  InvalidParamsError,
+  OrderbookUnavailableError,
+  InsufficientLiquidityError,
+  StaleDataError,
+} from './errors';
 
 export interface CostOracleConfig {
   /** Replay Labs API key for live orderbook data */
@@ -37,6 +83,38 @@ export interface CostOracleConfig {
   replayLabsBaseUrl?: string;
   /** Default estimation mode */
   defaultMode?: CostEstimateMode;
+  /** Account fee profiles to register up front */
+  accountProfiles?: AccountFeeProfile[];
+  /** Volume ledger used for tier selection (default: empty 30-day ledger) */
+  volumeLedger?: VolumeLedger;
+  /** Orderbook snapshot cache settings (default: 1s max-age) */
+  orderbookCache?: OrderbookCacheConfig;
+  /** Streaming orderbooks; synced local books are used ahead of the cache */
+  orderbookStream?: OrderbookStream;
+  /**
+   * Never fall back to estimated spread/slippage: missing or failed orderbooks,
+   * thin books and stale data throw typed errors instead (default false)
+   */
+  strict?: boolean;
+  /** Fill curve and adverse selection for passive LIMIT orders */
+  limitOrderModel?: PassiveOrderModel;
+  /** Events and their equivalent venue markets (default: empty registry) */
+  marketRegistry?: MarketRegistry;
+  /**
+   * Market metadata for fee classification (default: the Replay Labs client,
+   * if set, for estimates with `fetch_market_metadata`)
+   */
+  marketMetadataProvider?: MarketMetadataProvider;
+  /**
+   * Market metadata reuse: lookups older than `maxAgeMs` are refetched, so
+   * volume and liquidity stay current (default 60000); at most `maxEntries`
+   * markets are kept, oldest evicted first (default 1000)
+   */
+  marketMetadataCache?: { maxAgeMs?: number; maxEntries?: number };
+  /** Live gas price and POL/USD for on-chain venues (default: schedule averages) */
+  gasPriceFeed?: GasPriceFeed;
+  /** Deposit, withdrawal and redeem fees (default: bundled funding schedule) */
+  fundingSchedule?: FundingScheduleDefinition;
 }
 
 export interface CostEstimateParams extends FeeEstimateParams {
@@ -44,31 +122,207 @@ export interface CostEstimateParams extends FeeEstimateParams {
   side?: 'BUY' | 'SELL';
   /** Estimation mode override */
   mode?: CostEstimateMode;
+  /** Oldest orderbook snapshot acceptable from cache, in ms (0 forces a fresh fetch) */
+  max_book_age_ms?: number;
+  /** Cancels the orderbook request; the estimate rejects instead of falling back */
+  signal?: AbortSignal;
+  /** Strict mode override for this call (see CostOracleConfig.strict) */
+  strict?: boolean;
+  /** Passive order model override, merged over CostOracleConfig.limitOrderModel */
+  limit_order_model?: PassiveOrderModel;
+  /**
+   * Limit price, in the traded outcome's prices: the order crosses the book up
+   * to it (taker) and the remainder rests there (maker). Implies a LIMIT order.
+   */
+  limit_price?: number;
+}
+
+export interface ArbitrageOptions {
+  /** Price every leg as of this time (historical fees and orderbooks) */
+  as_of?: string;
+  /** Cancels every leg's orderbook request */
+  signal?: AbortSignal;
+  /** Strict mode override for every leg (see CostOracleConfig.strict) */
+  strict?: boolean;
+  /** Report profit after moving capital in and out of these venues */
+  funding?: Partial<Record<Venue, FundingRoute>>;
+}
+
+export interface MaxSizeConstraints {
+  /** Total cost (fees + spread + slippage) as bps of notional */
+  max_cost_bps?: number;
+  /** Total cost in USD */
+  max_cost_usd?: number;
+  /** Average fill price vs best price, in percent */
+  max_price_impact_pct?: number;
+}
+
+export interface MaxSizeOptions {
+  /** Price for the fee model (default: best price on the traded side) */
+  price?: number;
+  /** Outcome traded (default YES) */
+  outcome?: Outcome;
+  account_id?: string;
+  /** Solve against the historical book and fees at this time */
+  as_of?: string;
+  /** Oldest orderbook snapshot acceptable from cache, in ms */
+  max_book_age_ms?: number;
+  signal?: AbortSignal;
+  /** Strict mode override (see CostOracleConfig.strict) */
+  strict?: boolean;
+}
+
+export interface RouteMarket {
+  venue: Venue;
+  /** Kalshi market ticker */
+  market_id?: string;
+  /** Polymarket CLOB token id */
+  token_id?: string;
+  /** Outcome traded on this venue (default: the order's outcome) */
+  outcome?: Outcome;
+  /** Price for this venue's fee model (default: best price on the traded side) */
+  price?: number;
+  account_id?: string;
+}
+
+export interface RouteOrderParams {
+  /** Equivalent markets to split the order across */
+  markets: RouteMarket[];
+  side: 'BUY' | 'SELL';
+  /** Order size in USD notional (give this or size_contracts) */
+  size_usd?: number;
+  /** Order size in contracts */
+  size_contracts?: number;
+  /** Outcome traded (default YES) */
+  outcome?: Outcome;
+  account_id?: string;
+  as_of?: string;
+  max_book_age_ms?: number;
+  signal?: AbortSignal;
+  strict?: boolean;
+}
+
+/**
+ * One leg of an event trade, in the event's terms
+ */
+export interface EventLeg {
+  venue: Venue;
+  direction: 'BUY' | 'SELL';
+  /** Event outcome traded (default YES) */
+  outcome?: Outcome;
+  /** Price of the contract paying on `outcome` */
+  price?: number;
+  size_usd?: number;
+  size_contracts?: number;
+  order_type?: OrderType;
+  account_id?: string;
+}
+
+export interface ExecutionPlanParams extends CostEstimateParams {
+  /** Number of equal child orders */
+  slices: number;
+  /** Time between child orders */
+  interval_ms: number;
+  /** Book refill model (default: DEFAULT_BOOK_HALF_LIFE_MS) */
+  resiliency?: ResiliencyModel;
+  /** Recorded snapshots of this market, in either outcome's quotes, to fit the refill model from (wins over `resiliency`) */
+  calibration_snapshots?: OrderbookSnapshot[];
 }
 
+/**
+ * A market metadata lookup, shared by concurrent estimates of the market
+ */
+interface MarketMetadataEntry {
+  lookup: Promise<MarketMetadata | undefined>;
+  fetched_at_ms: number;
+  controller: AbortController;
+  /** Callers still waiting - the lookup is aborted once all of them abort */
+  waiters: number;
+}
+
+/** Search floor and bisection tolerance for maxSizeForCost, in USD */
+const SIZE_SOLVER_TOLERANCE_USD = 0.01;
+
+/** Chunks a routed order is split into */
+const ROUTE_STEPS = 100;
+
+/**
+ * Capital a leg ties up: the premium for a BUY, the collateral (1 - price
+ * per contract) for a SELL
+ */
+function legCapital(direction: 'BUY' | 'SELL', contracts: number, price: number): number {
+  return contracts * (direction === 'BUY' ? price : 1 - price);
+}
+
+/**
+ * Explicit cost of a fee breakdown: exchange + gas + settlement - rebate
+ */
+function explicitCostOf(breakdown: Omit<FeeBreakdown, 'slippage_estimate'>): number {
+  return breakdown.exchange_fee + (breakdown.gas_fee ?? 0) + (breakdown.settlement_fee ?? 0) - (breakdown.rebate ?? 0);
+}
+
+/** Refill half-life when an execution plan gives no resiliency model */
+const DEFAULT_BOOK_HALF_LIFE_MS = 30_000;
+
+const CONFIDENCE_RANK: Record<Confidence, number> = { low: 0, medium: 1, high: 2 };
+
 /**
  * Main Oracle class - entry point for all cost calculations
  */
 export class CostOracle {
   private calculators: Map<Venue, FeeCalculator>;
+  private accountProfiles: Map<string, AccountFeeProfile> = new Map();
+  private volumeLedger: VolumeLedger;
   private replayLabsClient: ReplayLabsClient | null = null;
+  private orderbookCache: OrderbookCache | null = null;
+  private orderbookCacheConfig?: OrderbookCacheConfig;
+  private orderbookStream: OrderbookStream | null = null;
   private defaultMode: CostEstimateMode;
+  private strict: boolean;
+  private limitOrderModel: PassiveOrderModel;
+  private marketRegistry: MarketRegistry;
+  private marketMetadataProvider: MarketMetadataProvider | null = null;
+  private marketMetadataFromClient = false;
+  private marketMetadata: Map<string, MarketMetadataEntry> = new Map();
+  private marketMetadataMaxAgeMs: number;
+  private marketMetadataMaxEntries: number;
+  private gasPriceFeed: GasPriceFeed | null;
+  private fundingCalculator: FundingCostCalculator;
   
   constructor(config?: CostOracleConfig) {
     this.calculators = new Map();
     this.defaultMode = config?.defaultMode ?? 'PUBLIC_SCHEDULE';
+    this.strict = config?.strict ?? false;
+    this.limitOrderModel = config?.limitOrderModel ?? {};
+    this.volumeLedger = config?.volumeLedger ?? new VolumeLedger();
+    this.orderbookCacheConfig = config?.orderbookCache;
+    this.marketRegistry = config?.marketRegistry ?? new MarketRegistry();
+    this.gasPriceFeed = config?.gasPriceFeed ?? null;
+    this.marketMetadataMaxAgeMs = config?.marketMetadataCache?.maxAgeMs ?? 60_000;
+    this.marketMetadataMaxEntries = config?.marketMetadataCache?.maxEntries ?? 1000;
+    this.fundingCalculator = new FundingCostCalculator(config?.fundingSchedule);
+    if (config?.marketMetadataProvider) {
+      this.setMarketMetadataProvider(config.marketMetadataProvider);
+    }
     
     // Register prediction market fee calculators
     this.registerCalculator(new KalshiFeeCalculator());
     this.registerCalculator(new PolymarketFeeCalculator());
     
+    for (const profile of config?.accountProfiles ?? []) {
+      this.registerAccountProfile(profile);
+    }
+    
     // Initialize Replay Labs client if API key provided
     if (config?.replayLabsApiKey) {
-      this.replayLabsClient = new ReplayLabsClient({
+      this.setReplayLabsClient(new ReplayLabsClient({
         apiKey: config.replayLabsApiKey,
         baseUrl: config.replayLabsBaseUrl,
-      });
-      this.defaultMode = 'LIVE_ORDERBOOK';
+      }));
+    }
+    
+    if (config?.orderbookStream) {
+      this.setOrderbookStream(config.orderbookStream);
     }
   }
   
@@ -77,9 +331,111 @@ export class CostOracle {
    */
   setReplayLabsClient(client: ReplayLabsClient): void {
     this.replayLabsClient = client;
+    this.orderbookCache = new OrderbookCache(
+      (venue, marketId, options) => client.getOrderbook(venue, marketId, options),
+      this.orderbookCacheConfig
+    );
+    if (!this.marketMetadataProvider || this.marketMetadataFromClient) {
+      this.marketMetadataProvider = (venue, ids, options) => client.getMarketMetadata(venue, ids, options);
+      this.marketMetadataFromClient = true;
+      this.marketMetadata.clear();
+    }
     this.defaultMode = 'LIVE_ORDERBOOK';
   }
   
+  /**
+   * Set where market metadata (fee rates, tags, trading window) comes from
+   * 
+   * Lookups are cached per market for up to `marketMetadataCache.maxAgeMs`;
+   * failed ones are retried on the next estimate.
+   */
+  setMarketMetadataProvider(provider: MarketMetadataProvider): void {
+    this.marketMetadataProvider = provider;
+    this.marketMetadataFromClient = false;
+    this.marketMetadata.clear();
+  }
+  
+  /**
+   * Set a streaming orderbook source
+   * 
+   * Live estimates for subscribed, in-sync markets read the local book
+   * instead of making a request. Other markets still go through the cache.
+   */
+  setOrderbookStream(stream: OrderbookStream): void {
+    this.orderbookStream = stream;
+    this.defaultMode = 'LIVE_ORDERBOOK';
+  }
+  
+  /**
+   * Get the streaming orderbook source, if set
+   */
+  getOrderbookStream(): OrderbookStream | null {
+    return this.orderbookStream;
+  }
+  
+  /**
+   * Get the orderbook snapshot cache (null until a Replay Labs client is set)
+   */
+  getOrderbookCache(): OrderbookCache | null {
+    return this.orderbookCache;
+  }
+  
+  /**
+   * Set the live gas price source (null: price gas from schedule averages)
+   */
+  setGasPriceFeed(feed: GasPriceFeed | null): void {
+    this.gasPriceFeed = feed;
+  }
+  
+  /**
+   * Get the funding cost calculator (deposit/withdrawal/redeem fees)
+   */
+  getFundingCalculator(): FundingCostCalculator {
+    return this.fundingCalculator;
+  }
+  
+  /**
+   * Cost of moving `amountUsd` in and out of a venue
+   * 
+   * On-chain steps (Polymarket redeem) are priced by the venue's gas model:
+   * the live gas feed when set, else the schedule average.
+   */
+  async estimateFundingCost(
+    venue: Venue,
+    amountUsd: number,
+    route?: FundingRoute,
+    options?: { as_of?: string; signal?: AbortSignal }
+  ): Promise<FundingCostEstimate> {
+    return this.fundingCalculator.estimate(venue, amountUsd, route, await this.fundingGasPricer(venue, options));
+  }
+  
+  /**
+   * Gas pricing for funding steps on venues with an on-chain gas model
+   */
+  private async fundingGasPricer(
+    venue: Venue,
+    options?: { as_of?: string; signal?: AbortSignal }
+  ): Promise<FundingGasPricer | undefined> {
+    const calculator = this.calculators.get(venue);
+    if (!(calculator instanceof PolymarketFeeCalculator)) return undefined;
+    const gasPrice = options?.as_of ? undefined : await this.quoteGas(options?.signal);
+    return operation => calculator.estimateOperationGas([operation], gasPrice, options?.as_of).cost_usd;
+  }
+  
+  /**
+   * Replace the market registry used to expand event ids into legs
+   */
+  setMarketRegistry(registry: MarketRegistry): void {
+    this.marketRegistry = registry;
+  }
+  
+  /**
+   * Get the market registry
+   */
+  getMarketRegistry(): MarketRegistry {
+    return this.marketRegistry;
+  }
+  
   /**
    * Register a fee calculator for a venue
    */
@@ -94,6 +450,44 @@ export class CostOracle {
     return this.calculators.get(venue);
   }
   
+  /**
+   * Register (or replace) an account fee profile
+   * 
+   * Estimates with a matching `account_id` use the profile's rates for any
+   * venue it lists (ACCOUNT_SPECIFIC mode).
+   */
+  registerAccountProfile(profile: AccountFeeProfile): void {
+    this.accountProfiles.set(profile.account_id, profile);
+  }
+  
+  /**
+   * Get a registered account fee profile
+   */
+  getAccountProfile(accountId: string): AccountFeeProfile | undefined {
+    return this.accountProfiles.get(accountId);
+  }
+  
+  /**
+   * Remove an account fee profile
+   */
+  removeAccountProfile(accountId: string): boolean {
+    return this.accountProfiles.delete(accountId);
+  }
+  
+  /**
+   * Record an executed fill so it counts toward volume tiers
+   */
+  recordVolume(record: VolumeRecord): void {
+    this.volumeLedger.record(record);
+  }
+  
+  /**
+   * Get the volume ledger driving tier selection
+   */
+  getVolumeLedger(): VolumeLedger {
+    return this.volumeLedger;
+  }
+  
   /**
    * List all supported venues
    */
@@ -105,54 +499,191 @@ export class CostOracle {
    * Estimate fees for a single trade (backwards compatible)
    */
   async estimate(params: FeeEstimateParams): Promise<FeeEstimate> {
-    const calculator = this.calculators.get(params.venue);
+    const calculator = this.requireCalculator(params.venue);
+    const validation = assertValidEstimateParams(params);
     
+    const estimate = await calculator.estimate(validation.params, await this.resolveContext(validation.params));
+    return {
+      ...estimate,
+      defaults_applied: validation.defaults_applied,
+      diagnostics: validation.diagnostics,
+    };
+  }
+  
+  private requireCalculator(venue: Venue): FeeCalculator {
+    const calculator = this.calculators.get(venue);
     if (!calculator) {
-      throw new Error(`No calculator registered for venue: ${params.venue}`);
+      throw new UnsupportedVenueError(venue);
+    }
+    return calculator;
+  }
+  
+  /**
+   * Resolve account rates and traded volume for a calculator
+   */
+  private async resolveContext(
+    params: FeeEstimateParams & { signal?: AbortSignal }
+  ): Promise<FeeEstimateContext> {
+    const asOf = params.as_of ? new Date(params.as_of) : undefined;
+    const context: FeeEstimateContext = {
+      volume_usd: this.volumeLedger.getVolume(params.venue, params.account_id, asOf),
+      volume_window_days: this.volumeLedger.windowDays,
+    };
+    
+    if (params.account_id) {
+      const profile = this.accountProfiles.get(params.account_id);
+      if (!profile) {
+        throw new InvalidParamsError(`No account profile registered for account: ${params.account_id}`, 'account_id');
+      }
+      context.account = profile.venues[params.venue];
+    }
+    
+    context.market = await this.resolveMarketMetadata(params);
+    
+    // Live gas only for current, self-paid Polygon trades
+    if (params.venue === 'POLYMARKET' && !params.as_of && !params.relayer) {
+      context.gas_price = await this.quoteGas(params.signal);
+    }
+    return context;
+  }
+  
+  /**
+   * Live gas quote, if a feed is set; a failed quote falls back to the schedule
+   */
+  private async quoteGas(signal?: AbortSignal): Promise<GasPriceQuote | undefined> {
+    if (!this.gasPriceFeed) return undefined;
+    try {
+      return await this.gasPriceFeed.quote({ signal });
+    } catch {
+      signal?.throwIfAborted();
+      return undefined;
+    }
+  }
+  
+  /**
+   * Cached metadata lookup; a failed lookup leaves the market unclassified
+   * 
+   * Uncached markets are only looked up when `fetch_market_metadata` allows
+   * it, so fee-only estimates on the Replay Labs default make no requests.
+   * Concurrent lookups of one market share a request, which is aborted only
+   * once every caller waiting on it has aborted.
+   */
+  private async resolveMarketMetadata(
+    params: FeeEstimateParams & { signal?: AbortSignal }
+  ): Promise<MarketMetadata | undefined> {
+    const provider = this.marketMetadataProvider;
+    if (!provider || (!params.market_id && !params.token_id)) return undefined;
+    
+    const key = `${params.venue}:${params.market_id ?? ''}:${params.token_id ?? ''}`;
+    const now = Date.now();
+    let entry = this.marketMetadata.get(key);
+    if (!entry || now - entry.fetched_at_ms >= this.marketMetadataMaxAgeMs) {
+      if (!(params.fetch_market_metadata ?? !this.marketMetadataFromClient)) return undefined;
+      
+      const controller = new AbortController();
+      const created: MarketMetadataEntry = {
+        lookup: provider(params.venue, { market_id: params.market_id, token_id: params.token_id }, { signal: controller.signal }),
+        fetched_at_ms: now,
+        controller,
+        waiters: 0,
+      };
+      // A failed lookup is retried on the next estimate
+      created.lookup.catch(() => {
+        if (this.marketMetadata.get(key) === created) this.marketMetadata.delete(key);
+      });
+      entry = created;
+      // Re-inserted at the end, so the first key is always the oldest lookup
+      this.marketMetadata.delete(key);
+      this.marketMetadata.set(key, entry);
+      while (this.marketMetadata.size > this.marketMetadataMaxEntries) {
+        const oldest = this.marketMetadata.keys().next().value;
+        if (oldest === undefined) break;
+        this.marketMetadata.delete(oldest);
+      }
     }
     
-    return calculator.estimate(params);
+    const shared = entry;
+    shared.waiters++;
+    let waiting = true;
+    try {
+      return await raceAbort(shared.lookup, params.signal, () => {
+        waiting = false;
+        if (--shared.waiters === 0) {
+          shared.controller.abort(params.signal?.reason);
+        }
+      });
+    } catch {
+      params.signal?.throwIfAborted();
+      return undefined;
+    } finally {
+      if (waiting) shared.waiters--;
+    }
   }
   
   /**
    * Estimate TOTAL trading cost including spread and slippage
    * 
    * This is the recommended method for accurate cost estimation.
-   * Uses live orderbook data when available.
+   * Uses live orderbook data when available. An explicit `order_type: 'LIMIT'`
+   * against a live book is priced as a resting order (calculatePassiveOrderCost):
+   * expected fill, adverse selection and the cost of crossing later for the
+   * unfilled part, instead of a sweep. A `limit_price` through the touch
+   * crosses up to that price at taker fees and rests the remainder there at
+   * maker fees; the breakdown reports the split.
    */
-  async estimateCost(params: CostEstimateParams): Promise<TradingCost> {
-    const mode = params.mode ?? this.defaultMode;
+  async estimateCost(input: CostEstimateParams): Promise<TradingCost> {
+    input.signal?.throwIfAborted();
+    const mode = input.mode ?? this.defaultMode;
+    const strict = input.strict ?? this.strict;
+    
+    const calculator = this.requireCalculator(input.venue);
+    const validation = assertValidEstimateParams(input, { live: mode === 'LIVE_ORDERBOOK', requireSide: true });
+    const params = validation.params;
     const side = params.side ?? 'BUY';
-    const price = params.price ?? 0.5;
+    const price = params.price;
+    const bookId = params[orderbookIdField(params.venue)];
+    // A contract size is walked as contracts, so the notional comes from the book
+    const byContracts = input.size_contracts !== undefined;
+    let notionalUsd = params.size_usd;
+    let sizeContracts = params.size_contracts;
     
     // 1. Get explicit costs (fees) from calculator
-    const feeEstimate = await this.estimate(params);
-    const exchangeFee = feeEstimate.breakdown.exchange_fee;
+    const context = await this.resolveContext(params);
+    const feeEstimate = await calculator.estimate(params, context);
+    let exchangeFee = feeEstimate.breakdown.exchange_fee;
     const gasFee = feeEstimate.breakdown.gas_fee ?? 0;
-    const explicitCost = exchangeFee + gasFee;
+    const settlementFee = feeEstimate.breakdown.settlement_fee ?? 0;
+    let rebate = feeEstimate.breakdown.rebate ?? 0;
     
     // 2. Get implicit costs (spread, slippage)
     let spreadCost = 0;
     let slippage = 0;
+    let limitCosts: Pick<
+      CostBreakdown,
+      | 'adverse_selection' | 'opportunity_cost' | 'limit_price' | 'queue_ahead_contracts'
+      | 'taker_contracts' | 'taker_fee' | 'maker_contracts' | 'maker_fee'
+    > = {};
+    let expectedFillRatio: number | undefined;
+    let averageFillPrice: number | undefined;
     let orderbook: OrderbookSnapshot | undefined;
     let confidence: 'high' | 'medium' | 'low' = 'medium';
     const assumptions: string[] = [...feeEstimate.assumptions];
     
-    if (mode === 'LIVE_ORDERBOOK' && this.replayLabsClient && params.market_id) {
+    const hasOrderbookSource = this.orderbookCache !== null || this.orderbookStream !== null;
+    
+    if (mode === 'LIVE_ORDERBOOK' && ((hasOrderbookSource && bookId) || strict)) {
       try {
-        // Fetch live orderbook
-        orderbook = await this.replayLabsClient.getOrderbook(params.venue, params.market_id);
-        
-        // Calculate spread and slippage from orderbook
-        const slippageResult = calculateSlippage(orderbook, params.size_usd, side);
-        spreadCost = slippageResult.spread_cost_usd;
-        slippage = slippageResult.slippage_usd;
-        confidence = 'high';
-        
-        assumptions.push(`Live orderbook: spread=${orderbook.spread_bps.toFixed(0)}bps`);
-        assumptions.push(`Levels consumed: ${slippageResult.levels_consumed}`);
-        assumptions.push(`Price impact: ${slippageResult.price_impact_pct.toFixed(3)}%`);
+        orderbook = this.toTradedOutcome(await this.loadOrderbook(params, bookId, assumptions), params.outcome);
+        assumptions.push(params.as_of
+          ? `Historical orderbook at ${orderbook.timestamp}: spread=${orderbook.spread_bps.toFixed(0)}bps`
+          : `Live orderbook: spread=${orderbook.spread_bps.toFixed(0)}bps`);
+        if (params.outcome === 'NO') {
+          assumptions.push(`NO book: bid ${orderbook.best_bid.toFixed(2)} / ask ${orderbook.best_ask.toFixed(2)}`);
+        }
       } catch (err) {
+        // Cancellation is not a data problem - surface it; strict mode never falls back
+        if (params.signal?.aborted || strict) throw err;
+        
         // Fall back to estimates
         assumptions.push(`Orderbook fetch failed, using estimates`);
         spreadCost = estimateSpreadCost(params.venue, params.size_usd, price);
@@ -166,14 +697,124 @@ export class CostOracle {
       assumptions.push(`Spread/slippage estimated (no live orderbook)`);
     }
     
-    const implicitCost = spreadCost + slippage;
+    if (orderbook && (params.limit_price !== undefined || input.order_type === 'LIMIT')) {
+      // Limit order: cross up to limit_price as taker (nothing crosses without
+      // one), then rest the remainder as a passive maker order
+      const limitPrice = params.limit_price;
+      const crossed = limitPrice === undefined ? undefined : byContracts
+        ? calculateSlippageByContracts(orderbook, params.size_contracts, side, orderbook.outcome, limitPrice)
+        : calculateSlippage(orderbook, params.size_usd, side, orderbook.outcome, limitPrice);
+      const takerContracts = crossed?.contracts ?? 0;
+      const model = { ...this.limitOrderModel, ...params.limit_order_model };
+      // A USD size rests at the resting price, not at the reference `price`
+      const restingContracts = crossed
+        ? crossed.unfilled_contracts
+        : byContracts
+          ? params.size_contracts
+          : params.size_usd / calculatePassiveOrderCost(orderbook, 0, side, orderbook.outcome, model).limit_price;
+      
+      const passive = calculatePassiveOrderCost(orderbook, restingContracts, side, orderbook.outcome, model, limitPrice);
+      const ratio = passive.expected_fill_ratio;
+      const restPrice = passive.limit_price;
+      
+      // Taker fees at the crossed fills' average price, maker fees at the resting price
+      const takerEstimate = crossed && takerContracts > 0
+        ? await calculator.estimate({
+            ...params,
+            order_type: 'MARKET',
+            size_contracts: takerContracts,
+            size_usd: crossed.notional_usd,
+            price: crossed.effective_price,
+          }, context)
+        : undefined;
+      let makerFee = 0;
+      let makerRebate = 0;
+      let lateTakerFee = 0;
+      if (restingContracts > 0) {
+        const resting = { size_contracts: restingContracts, size_usd: restingContracts * restPrice, price: restPrice };
+        const makerEstimate = await calculator.estimate({ ...params, ...resting, order_type: 'LIMIT' }, context);
+        const lateTakerEstimate = await calculator.estimate({ ...params, ...resting, order_type: 'MARKET' }, context);
+        makerFee = makerEstimate.breakdown.exchange_fee * ratio;
+        makerRebate = (makerEstimate.breakdown.rebate ?? 0) * ratio;
+        lateTakerFee = lateTakerEstimate.breakdown.exchange_fee * (1 - ratio);
+      }
+      
+      const takerFee = takerEstimate?.breakdown.exchange_fee ?? 0;
+      exchangeFee = takerFee + makerFee;
+      rebate = (takerEstimate?.breakdown.rebate ?? 0) + makerRebate;
+      spreadCost = (crossed?.spread_cost_usd ?? 0) + passive.spread_cost_usd;
+      slippage = crossed?.slippage_usd ?? 0;
+      notionalUsd = crossed ? crossed.notional_usd + crossed.unfilled_usd : params.size_usd;
+      limitCosts = {
+        adverse_selection: passive.adverse_selection_usd,
+        opportunity_cost: passive.opportunity_cost_usd + lateTakerFee,
+        limit_price: restPrice,
+        queue_ahead_contracts: passive.queue_ahead_contracts,
+        taker_contracts: takerContracts,
+        taker_fee: takerFee,
+        maker_contracts: restingContracts,
+        maker_fee: makerFee,
+      };
+      const totalContracts = takerContracts + restingContracts;
+      sizeContracts = totalContracts;
+      expectedFillRatio = totalContracts > 0 ? (takerContracts + restingContracts * ratio) / totalContracts : 1;
+      confidence = restingContracts > 0 ? 'medium' : 'high';
+      
+      if (crossed) {
+        assumptions.push(
+          `Limit ${restPrice.toFixed(2)}: ${takerContracts.toFixed(0)} contracts cross as taker ` +
+            `(${crossed.levels_consumed} levels, fee $${takerFee.toFixed(2)})`
+        );
+      }
+      if (restingContracts > 0) {
+        assumptions.push(
+          `Resting ${restingContracts.toFixed(0)} contracts at ${restPrice.toFixed(2)} behind ` +
+            `${passive.queue_ahead_contracts.toFixed(0)} contracts: expected fill ${(ratio * 100).toFixed(1)}%`,
+          `Maker fee on filled part: $${makerFee.toFixed(2)}; adverse selection $${passive.adverse_selection_usd.toFixed(2)}`,
+          `Unfilled ${passive.unfilled_contracts.toFixed(0)} contracts assumed to cross later: $${limitCosts.opportunity_cost!.toFixed(2)}`,
+        );
+      }
+    } else if (orderbook) {
+      // Calculate spread and slippage from orderbook
+      const slippageResult = byContracts
+        ? calculateSlippageByContracts(orderbook, params.size_contracts, side)
+        : calculateSlippage(orderbook, params.size_usd, side);
+      if (slippageResult.unfilled_usd > 0) {
+        if (strict) {
+          throw new InsufficientLiquidityError(
+            params.venue,
+            bookId,
+            slippageResult.notional_usd,
+            slippageResult.notional_usd - slippageResult.unfilled_usd
+          );
+        }
+        assumptions.push(byContracts
+          ? `Book too thin: ${slippageResult.unfilled_contracts.toFixed(0)} contracts priced at the last visible level`
+          : `Book too thin: $${slippageResult.unfilled_usd.toFixed(2)} priced at the last visible level`);
+      }
+      notionalUsd = slippageResult.notional_usd;
+      averageFillPrice = slippageResult.effective_price;
+      spreadCost = slippageResult.spread_cost_usd;
+      slippage = slippageResult.slippage_usd;
+      confidence = slippageResult.unfilled_usd > 0 ? 'medium' : 'high';
+      
+      assumptions.push(`Levels consumed: ${slippageResult.levels_consumed}`);
+      assumptions.push(`Price impact: ${slippageResult.price_impact_pct.toFixed(3)}%`);
+    }
+    
+    const explicitCost = explicitCostOf({ exchange_fee: exchangeFee, gas_fee: gasFee, settlement_fee: settlementFee, rebate });
+    const implicitCost = spreadCost + slippage + (limitCosts.adverse_selection ?? 0) + (limitCosts.opportunity_cost ?? 0);
     const totalCost = explicitCost + implicitCost;
-    const totalCostPct = params.size_usd > 0 ? (totalCost / params.size_usd) * 100 : 0;
+    const totalCostPct = notionalUsd > 0 ? (totalCost / notionalUsd) * 100 : 0;
     
     return {
       venue: params.venue,
       size_usd: params.size_usd,
+      size_contracts: sizeContracts,
+      notional_usd: notionalUsd,
       side,
+      outcome: params.outcome,
+      account_id: params.account_id,
       
       // Explicit costs
       exchange_fee_usd: exchangeFee,
@@ -184,6 +825,8 @@ export class CostOracle {
       spread_cost_usd: spreadCost,
       slippage_usd: slippage,
       implicit_cost_usd: implicitCost,
+      expected_fill_ratio: expectedFillRatio,
+      average_fill_price: averageFillPrice,
       
       // Totals
       total_cost_usd: totalCost,
@@ -193,8 +836,11 @@ export class CostOracle {
       breakdown: {
         exchange_fee: exchangeFee,
         gas_fee: gasFee,
+        settlement_fee: settlementFee,
+        rebate,
         spread_cost: spreadCost,
         slippage,
+        ...limitCosts,
         best_bid: orderbook?.best_bid,
         best_ask: orderbook?.best_ask,
         mid_price: orderbook?.mid_price,
@@ -204,26 +850,594 @@ export class CostOracle {
       mode,
       assumptions,
       estimated_at: new Date().toISOString(),
+      as_of: params.as_of,
+      schedule_version: feeEstimate.schedule_version,
+      fee_classification: feeEstimate.fee_classification,
+      gas: feeEstimate.gas,
+      maker_rebate: feeEstimate.maker_rebate,
       orderbook_snapshot: orderbook,
+      defaults_applied: validation.defaults_applied,
+      diagnostics: validation.diagnostics,
     };
   }
   
   /**
-   * Fetch current orderbook for a market
+   * Orderbook for a live estimate: synced streaming book first, then the cache
+   * 
+   * A streaming book older than `max_book_age_ms` is only used when there is
+   * no cache to refetch from (and never in strict mode). Failures are typed:
+   * OrderbookUnavailableError wraps anything that is not already an OracleError.
    */
-  async getOrderbook(venue: Venue, marketId: string): Promise<OrderbookSnapshot> {
-    if (!this.replayLabsClient) {
-      throw new Error('Replay Labs client not configured. Initialize with replayLabsApiKey.');
+  private async loadOrderbook(
+    params: CostEstimateParams,
+    bookId: string | undefined,
+    assumptions: string[]
+  ): Promise<OrderbookSnapshot> {
+    const strict = params.strict ?? this.strict;
+    if (!bookId) {
+      const field = orderbookIdField(params.venue);
+      throw new InvalidParamsError(`${field} is required for LIVE_ORDERBOOK estimates on ${params.venue}`, field);
+    }
+    
+    // Synced streaming book (live estimates only - history comes from the API)
+    const streamed = params.as_of ? undefined : this.orderbookStream?.getBook(params.venue, bookId);
+    const streamedIsStale = streamed !== undefined
+      && params.max_book_age_ms !== undefined
+      && streamed.age_ms > params.max_book_age_ms;
+    
+    if (streamed && (!streamedIsStale || (!this.orderbookCache && !strict))) {
+      assumptions.push(`Streaming orderbook (seq ${streamed.seq}, age ${streamed.age_ms}ms)`);
+      if (streamedIsStale) {
+        assumptions.push(`Streaming orderbook older than max_book_age_ms (${params.max_book_age_ms}ms)`);
+      }
+      return streamed.snapshot;
+    }
+    
+    if (!this.orderbookCache) {
+      if (streamed && streamedIsStale) {
+        throw new StaleDataError(params.venue, bookId, streamed.age_ms, params.max_book_age_ms!);
+      }
+      throw new OrderbookUnavailableError(
+        params.venue,
+        bookId,
+        this.orderbookStream
+          ? `No synced streaming orderbook for ${params.venue} ${bookId} and no Replay Labs client configured`
+          : 'Replay Labs client not configured. Initialize with replayLabsApiKey.'
+      );
+    }
+    
+    try {
+      // Fetch live orderbook (or the historical snapshot at as_of), via the cache
+      const book = await this.orderbookCache.get(params.venue, bookId, {
+        at: params.as_of,
+        maxAgeMs: params.max_book_age_ms,
+        signal: params.signal,
+      });
+      if (book.cache_hit) {
+        assumptions.push(`Orderbook cache hit (age ${book.age_ms}ms)`);
+      } else if (book.coalesced) {
+        assumptions.push(`Orderbook shared with concurrent request (age ${book.age_ms}ms)`);
+      }
+      return book.snapshot;
+    } catch (err) {
+      if (params.signal?.aborted || err instanceof OracleError) throw err;
+      throw new OrderbookUnavailableError(
+        params.venue,
+        bookId,
+        `Orderbook fetch failed for ${params.venue} ${bookId}: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err }
+      );
     }
-    return this.replayLabsClient.getOrderbook(venue, marketId);
   }
   
   /**
-   * Get fee schedule for a venue
+   * A loaded book quoted in the traded outcome's prices
+   * 
+   * Kalshi books hold both ladders (invert for NO); Polymarket books are per
+   * token, so the token fetched is the outcome traded.
+   */
+  private toTradedOutcome(book: OrderbookSnapshot, outcome: Outcome): OrderbookSnapshot {
+    return book.venue === 'POLYMARKET'
+      ? { ...book, outcome }
+      : orderbookForOutcome(book, outcome);
+  }
+  
+  /**
+   * Largest trade that stays within a cost budget
+   * 
+   * Solves over one orderbook snapshot: calculateSlippage for spread and
+   * slippage plus the venue fee model, bisecting each constraint to the cent.
+   * The smallest answer wins and names the binding constraint; 'liquidity'
+   * means the whole visible side fits. `market` is the market_id (Kalshi) or
+   * token_id (Polymarket). Sizes a taker (MARKET) order; the returned cost is
+   * priced by estimateCost, which reads the same book from the stream or cache.
    */
-  getSchedule(venue: Venue): FeeSchedule | undefined {
+  async maxSizeForCost(
+    venue: Venue,
+    market: string,
+    side: 'BUY' | 'SELL',
+    constraints: MaxSizeConstraints,
+    options: MaxSizeOptions = {}
+  ): Promise<MaxSizeResult> {
+    options.signal?.throwIfAborted();
+    const calculator = this.requireCalculator(venue);
+    
+    const keys = (['max_cost_bps', 'max_cost_usd', 'max_price_impact_pct'] as const)
+      .filter(key => constraints[key] !== undefined);
+    if (keys.length === 0) {
+      throw new InvalidParamsError(
+        'At least one of max_cost_bps, max_cost_usd or max_price_impact_pct is required',
+        'constraints'
+      );
+    }
+    for (const key of keys) {
+      const limit = constraints[key]!;
+      if (!Number.isFinite(limit) || limit < 0) {
+        throw new InvalidParamsError(`${key} must be a non-negative number`, key);
+      }
+    }
+    
+    const base: CostEstimateParams = {
+      venue,
+      ...(venue === 'POLYMARKET' ? { token_id: market } : { market_id: market }),
+      side,
+      outcome: options.outcome,
+      order_type: 'MARKET',
+      price: options.price,
+      account_id: options.account_id,
+      as_of: options.as_of,
+      max_book_age_ms: options.max_book_age_ms,
+      signal: options.signal,
+      strict: options.strict,
+      mode: 'LIVE_ORDERBOOK',
+    };
+    const { params } = assertValidEstimateParams({ ...base, size_usd: 1 }, { requireSide: true });
+    const context = await this.resolveContext(params);
+    
+    const book = this.toTradedOutcome(await this.loadOrderbook(base, market, []), params.outcome);
+    const available = side === 'BUY' ? book.ask_depth_usd : book.bid_depth_usd;
+    const price = options.price ?? (side === 'BUY' ? book.best_ask : book.best_bid);
+    
+    // Same totals as estimateCost, without refetching the book
+    const fits = async (sizeUsd: number, key: typeof keys[number]): Promise<boolean> => {
+      const fee = await calculator.estimate({ ...params, size_usd: sizeUsd, size_contracts: sizeUsd / price, price }, context);
+      const walk = calculateSlippage(book, sizeUsd, side);
+      const totalCost = explicitCostOf(fee.breakdown) + walk.spread_cost_usd + walk.slippage_usd;
+      const value = key === 'max_cost_usd' ? totalCost
+        : key === 'max_cost_bps' ? (totalCost / sizeUsd) * 10000
+        : walk.price_impact_pct;
+      return value <= constraints[key]! + 1e-9;
+    };
+    
+    // Fixed fees make small trades expensive in bps and slippage makes large
+    // ones expensive, so the feasible sizes form one interval: halve down from
+    // the full book to a feasible size, then bisect up to the boundary
+    const solve = async (key: typeof keys[number]): Promise<number> => {
+      if (await fits(available, key)) return available;
+      let hi = available;
+      let lo = available / 2;
+      while (lo >= SIZE_SOLVER_TOLERANCE_USD && !(await fits(lo, key))) {
+        hi = lo;
+        lo /= 2;
+      }
+      if (lo < SIZE_SOLVER_TOLERANCE_USD) return 0;
+      while (hi - lo > SIZE_SOLVER_TOLERANCE_USD) {
+        const mid = (lo + hi) / 2;
+        if (await fits(mid, key)) lo = mid;
+        else hi = mid;
+      }
+      return lo;
+    };
+    
+    let sizeUsd = available;
+    let binding: MaxSizeBinding = 'liquidity';
+    if (available > 0 && price > 0) {
+      for (const key of keys) {
+        const size = await solve(key);
+        if (size < sizeUsd) {
+          sizeUsd = size;
+          binding = key;
+        }
+      }
+    }
+    
+    const cost = sizeUsd > 0 ? await this.estimateCost({ ...base, size_usd: sizeUsd, price }) : undefined;
+    
+    return {
+      venue,
+      market_id: market,
+      side,
+      outcome: params.outcome,
+      size_usd: sizeUsd,
+      size_contracts: cost?.size_contracts ?? 0,
+      cost,
+      binding_constraint: binding,
+      available_usd: available,
+    };
+  }
+  
+  /**
+   * Split one order across equivalent markets at the lowest all-in cost
+   * 
+   * Loads every venue's book once and hands out a taker (MARKET) order in
+   * ROUTE_STEPS chunks (USD or contracts, as sized), each to the venue whose
+   * next chunk has the best all-in price per contract: the walked book price
+   * plus fees for a BUY (least paid), minus fees for a SELL (most received).
+   * Comparing per-contract prices, not bps of each venue's own mid, also
+   * captures price differences between venues. A venue takes no more than
+   * its visible depth; if the books together cannot fill the order,
+   * InsufficientLiquidityError is thrown. Each non-empty share is then
+   * priced with estimateCost and the shares are summed into the blended
+   * cost. Every market's book must load; there is no estimated fallback here.
+   */
+  async routeOrder(params: RouteOrderParams): Promise<RouteResult> {
+    params.signal?.throwIfAborted();
+    if (params.markets.length === 0) {
+      throw new InvalidParamsError('At least one market is required', 'markets');
+    }
+    const { side } = params;
+    const byContracts = params.size_contracts !== undefined;
+    
+    const legs = await Promise.all(params.markets.map(async market => {
+      const calculator = this.requireCalculator(market.venue);
+      const base: CostEstimateParams = {
+        venue: market.venue,
+        market_id: market.market_id,
+        token_id: market.token_id,
+        side,
+        outcome: market.outcome ?? params.outcome,
+        order_type: 'MARKET',
+        size_usd: params.size_usd,
+        size_contracts: params.size_contracts,
+        account_id: market.account_id ?? params.account_id,
+        as_of: params.as_of,
+        max_book_age_ms: params.max_book_age_ms,
+        signal: params.signal,
+        strict: params.strict,
+        mode: 'LIVE_ORDERBOOK',
+      };
+      const { params: validated } = assertValidEstimateParams(
+        { ...base, price: market.price },
+        { live: true, requireSide: true }
+      );
+      const bookId = validated[orderbookIdField(market.venue)];
+      const book = this.toTradedOutcome(await this.loadOrderbook(validated, bookId, []), validated.outcome);
+      return {
+        base,
+        params: validated,
+        bookId: bookId!,
+        book,
+        context: await this.resolveContext(validated),
+        calculator,
+        price: market.price ?? (side === 'BUY' ? book.best_ask : book.best_bid),
+        available_usd: side === 'BUY' ? book.ask_depth_usd : book.bid_depth_usd,
+        // Visible depth in the order's size unit: a share never goes past it
+        depth: book.levels
+          .filter(l => l.side === (side === 'BUY' ? 'ASK' : 'BID'))
+          .reduce((acc, l) => acc + (byContracts ? l.size : l.size * l.price), 0),
+      };
+    }));
+    type Leg = typeof legs[number];
+    
+    // Contracts and net cash (paid for a BUY, received for a SELL) for a share
+    const outlay = async (leg: Leg, size: number): Promise<{ contracts: number; usd: number; unfilled: number }> => {
+      if (size <= 0) return { contracts: 0, usd: 0, unfilled: 0 };
+      const walk = byContracts
+        ? calculateSlippageByContracts(leg.book, size, side)
+        : calculateSlippage(leg.book, size, side);
+      const fee = await leg.calculator.estimate({
+        ...leg.params,
+        price: leg.price,
+        size_usd: byContracts ? size * leg.price : size,
+        size_contracts: byContracts ? size : size / leg.price,
+      }, leg.context);
+      const feeUsd = explicitCostOf(fee.breakdown);
+      return {
+        contracts: walk.contracts,
+        usd: side === 'BUY' ? walk.notional_usd + feeUsd : walk.notional_usd - feeUsd,
+        unfilled: walk.unfilled_contracts,
+      };
+    };
+    
+    const usable = legs.filter(leg => leg.available_usd > 0 && leg.price > 0);
+    if (usable.length === 0) {
+      const first = legs[0]!;
+      throw new InsufficientLiquidityError(first.params.venue, first.bookId, first.params.size_usd, 0);
+    }
+    
+    const total = byContracts ? params.size_contracts! : params.size_usd!;
+    const step = total / ROUTE_STEPS;
+    const epsilon = total * 1e-9;
+    // Price of a chunk a venue cannot fill: never the best choice
+    const unavailable = side === 'BUY' ? Infinity : -Infinity;
+    const shares = new Map<Leg, number>(legs.map(leg => [leg, 0]));
+    const filled = new Map<Leg, { contracts: number; usd: number; unfilled: number }>(
+      legs.map(leg => [leg, { contracts: 0, usd: 0, unfilled: 0 }])
+    );
+    const lastPrice = new Map<Leg, number>();
+    
+    // Next chunk per venue, capped at its remaining depth: only the venue that
+    // wins a chunk needs re-pricing
+    const nextChunk = async (leg: Leg, limit = step) => {
+      const current = filled.get(leg)!;
+      const size = Math.min(limit, leg.depth - shares.get(leg)!);
+      if (size <= epsilon) return { size: 0, next: current, price: unavailable };
+      const next = await outlay(leg, shares.get(leg)! + size);
+      const contracts = next.contracts - current.contracts;
+      const price = contracts > 0 && next.unfilled <= 1e-9 ? (next.usd - current.usd) / contracts : unavailable;
+      return { size, next, price };
+    };
+    const candidates = new Map(await Promise.all(usable.map(async leg => [leg, await nextChunk(leg)] as const)));
+    
+    for (let remaining = total; remaining > epsilon;) {
+      let best: Leg | undefined;
+      for (const leg of usable) {
+        const price = candidates.get(leg)!.price;
+        if (!best || (side === 'BUY' ? price < candidates.get(best)!.price : price > candidates.get(best)!.price)) {
+          best = leg;
+        }
+      }
+      let chunk = candidates.get(best!)!;
+      if (!Number.isFinite(chunk.price)) {
+        // Every visible level on every venue is taken
+        const availableUsd = usable.reduce((acc, leg) => acc + leg.available_usd, 0);
+        const worstPrice = side === 'BUY' ? Math.max(...usable.map(l => l.price)) : Math.min(...usable.map(l => l.price));
+        throw new InsufficientLiquidityError(
+          best!.params.venue,
+          best!.bookId,
+          availableUsd + (byContracts ? remaining * worstPrice : remaining),
+          availableUsd
+        );
+      }
+      if (chunk.size > remaining) chunk = await nextChunk(best!, remaining);
+      shares.set(best!, shares.get(best!)! + chunk.size);
+      filled.set(best!, chunk.next);
+      lastPrice.set(best!, chunk.price);
+      remaining -= chunk.size;
+      candidates.set(best!, await nextChunk(best!));
+    }
+    
+    const allocations: RouteAllocation[] = await Promise.all(legs.map(async leg => {
+      const share = shares.get(leg)!;
+      const cost = share > 0
+        ? await this.estimateCost({
+            ...leg.base,
+            price: leg.price,
+            size_usd: byContracts ? undefined : share,
+            size_contracts: byContracts ? share : undefined,
+          })
+        : undefined;
+      return {
+        venue: leg.params.venue,
+        market_id: leg.bookId,
+        outcome: leg.params.outcome,
+        size_usd: cost?.size_usd ?? 0,
+        size_contracts: cost?.size_contracts ?? 0,
+        cost,
+        marginal_price: lastPrice.get(leg) ?? candidates.get(leg)?.price ?? Infinity,
+      };
+    }));
+    
+    const costs = allocations.flatMap(a => (a.cost ? [a.cost] : []));
+    const sum = (pick: (cost: TradingCost) => number) => costs.reduce((acc, cost) => acc + pick(cost), 0);
+    const notionalUsd = sum(c => c.notional_usd);
+    const totalCost = sum(c => c.total_cost_usd);
+    const totalContracts = [...filled.values()].reduce((acc, f) => acc + f.contracts, 0);
+    const totalOutlay = [...filled.values()].reduce((acc, f) => acc + f.usd, 0);
+    const usedPrices = [...lastPrice.values()];
+    
+    return {
+      side,
+      allocations,
+      blended: {
+        size_usd: sum(c => c.size_usd),
+        size_contracts: sum(c => c.size_contracts),
+        notional_usd: notionalUsd,
+        exchange_fee_usd: sum(c => c.exchange_fee_usd),
+        gas_fee_usd: sum(c => c.gas_fee_usd),
+        explicit_cost_usd: sum(c => c.explicit_cost_usd),
+        spread_cost_usd: sum(c => c.spread_cost_usd),
+        slippage_usd: sum(c => c.slippage_usd),
+        implicit_cost_usd: sum(c => c.implicit_cost_usd),
+        total_cost_usd: totalCost,
+        total_cost_pct: notionalUsd > 0 ? (totalCost / notionalUsd) * 100 : 0,
+        confidence: costs.reduce<Confidence>(
+          (worst, c) => (CONFIDENCE_RANK[c.confidence] < CONFIDENCE_RANK[worst] ? c.confidence : worst),
+          'high'
+        ),
+        average_price: totalContracts > 0 ? totalOutlay / totalContracts : 0,
+      },
+      marginal_price: side === 'BUY' ? Math.max(...usedPrices) : Math.min(...usedPrices),
+    };
+  }
+  
+  /**
+   * Cost of working an order in slices (TWAP, iceberg) versus one sweep
+   * 
+   * Loads the book once and walks `slices` equal taker child orders
+   * `interval_ms` apart through it (simulateExecutionSchedule), letting
+   * consumed depth refill per the resiliency model in between. Each child
+   * order is charged by the venue's fee calculator on its own, so per-order
+   * costs such as gas count once per slice. Spread and slippage are measured
+   * against the original book, so depth not yet refilled shows as slippage.
+   */
+  async estimateExecutionPlan(input: ExecutionPlanParams): Promise<ExecutionPlan> {
+    input.signal?.throwIfAborted();
+    const calculator = this.requireCalculator(input.venue);
+    const strict = input.strict ?? this.strict;
+    if (!Number.isInteger(input.slices) || input.slices < 1) {
+      throw new InvalidParamsError('slices must be a positive integer', 'slices');
+    }
+    if (!(Number.isFinite(input.interval_ms) && input.interval_ms >= 0)) {
+      throw new InvalidParamsError('interval_ms must be a non-negative number', 'interval_ms');
+    }
+    if (input.resiliency && !(input.resiliency.half_life_ms >= 0)) {
+      throw new InvalidParamsError('resiliency.half_life_ms must be a non-negative number', 'resiliency');
+    }
+    
+    const childOrder: ExecutionPlanParams = { ...input, order_type: 'MARKET' };
+    const { params } = assertValidEstimateParams(childOrder, { live: true, requireSide: true });
+    const side = params.side ?? 'BUY';
+    const bookId = params[orderbookIdField(params.venue)];
+    const assumptions: string[] = [];
+    const book = this.toTradedOutcome(await this.loadOrderbook(params, bookId, assumptions), params.outcome);
+    const context = await this.resolveContext(params);
+    
+    const calibrated = input.calibration_snapshots !== undefined;
+    const foreign = input.calibration_snapshots?.find(s => s.venue !== book.venue || s.market_id !== book.market_id);
+    if (foreign) {
+      throw new InvalidParamsError(
+        `Calibration snapshot of ${foreign.venue} ${foreign.market_id} is not of the planned market ${book.venue} ${book.market_id}`,
+        'calibration_snapshots'
+      );
+    }
+    // Fitted on the depth the order consumes, in the traded outcome's quotes
+    const resiliency = calibrated
+      ? calibrateResiliency(input.calibration_snapshots!.map(s => this.toTradedOutcome(s, params.outcome)), side)
+      : input.resiliency ?? { half_life_ms: DEFAULT_BOOK_HALF_LIFE_MS };
+    assumptions.push(
+      `${input.slices} taker slices every ${input.interval_ms}ms`,
+      `Book refill half-life ${resiliency.half_life_ms.toFixed(0)}ms ` +
+        `(${calibrated ? `fitted to ${input.calibration_snapshots!.length} snapshots` : input.resiliency ? 'given' : 'default'})`
+    );
+    
+    const size = input.size_contracts !== undefined ? { contracts: params.size_contracts } : { usd: params.size_usd };
+    
+    // Child order fees from the venue calculator at the slice's fill price, implicit costs from the walk
+    const priceSlice = async (slice: SimulatedSlice): Promise<ExecutionCostSummary> => {
+      const fee = await calculator.estimate({
+        ...params,
+        size_usd: slice.notional_usd,
+        size_contracts: slice.contracts,
+        price: slice.effective_price > 0 ? slice.effective_price : params.price,
+      }, context);
+      const exchangeFee = fee.breakdown.exchange_fee;
+      const gasFee = fee.breakdown.gas_fee ?? 0;
+      const explicitCost = explicitCostOf(fee.breakdown);
+      const implicitCost = slice.spread_cost_usd + slice.slippage_usd;
+      return {
+        size_usd: slice.notional_usd,
+        size_contracts: slice.contracts,
+        exchange_fee_usd: exchangeFee,
+        gas_fee_usd: gasFee,
+        explicit_cost_usd: explicitCost,
+        spread_cost_usd: slice.spread_cost_usd,
+        slippage_usd: slice.slippage_usd,
+        implicit_cost_usd: implicitCost,
+        total_cost_usd: explicitCost + implicitCost,
+        total_cost_pct: slice.notional_usd > 0 ? ((explicitCost + implicitCost) / slice.notional_usd) * 100 : 0,
+        average_fill_price: slice.effective_price,
+      };
+    };
+    const sumCosts = (parts: ExecutionCostSummary[]): ExecutionCostSummary => {
+      const sum = (pick: (part: ExecutionCostSummary) => number) => parts.reduce((acc, part) => acc + pick(part), 0);
+      const sizeUsd = sum(p => p.size_usd);
+      const contracts = sum(p => p.size_contracts);
+      const totalCost = sum(p => p.total_cost_usd);
+      return {
+        size_usd: sizeUsd,
+        size_contracts: contracts,
+        exchange_fee_usd: sum(p => p.exchange_fee_usd),
+        gas_fee_usd: sum(p => p.gas_fee_usd),
+        explicit_cost_usd: sum(p => p.explicit_cost_usd),
+        spread_cost_usd: sum(p => p.spread_cost_usd),
+        slippage_usd: sum(p => p.slippage_usd),
+        implicit_cost_usd: sum(p => p.implicit_cost_usd),
+        total_cost_usd: totalCost,
+        total_cost_pct: sizeUsd > 0 ? (totalCost / sizeUsd) * 100 : 0,
+        average_fill_price: contracts > 0 ? sizeUsd / contracts : 0,
+      };
+    };
+    
+    const simulated = simulateExecutionSchedule(book, size, side, input.slices, input.interval_ms, resiliency);
+    const thin = simulated.filter(s => s.unfilled_usd > 0);
+    if (thin.length > 0) {
+      if (strict) {
+        const requested = simulated.reduce((acc, s) => acc + s.notional_usd, 0);
+        const unfilled = thin.reduce((acc, s) => acc + s.unfilled_usd, 0);
+        throw new InsufficientLiquidityError(params.venue, bookId, requested, requested - unfilled);
+      }
+      assumptions.push(`${thin.length} slice(s) outran the refilled book; the excess is priced at the last visible level`);
+    }
+    
+    const slices = await Promise.all(simulated.map(async s => ({
+      ...(await priceSlice(s)),
+      index: s.index,
+      offset_ms: s.offset_ms,
+      levels_consumed: s.levels_consumed,
+    })));
+    const total = sumCosts(slices);
+    const oneShot = sumCosts(await Promise.all(
+      simulateExecutionSchedule(book, size, side, 1, 0, resiliency).map(priceSlice)
+    ));
+    
+    return {
+      venue: params.venue,
+      market_id: bookId!,
+      side,
+      outcome: params.outcome,
+      slices,
+      total,
+      one_shot: oneShot,
+      savings_usd: oneShot.total_cost_usd - total.total_cost_usd,
+      duration_ms: (input.slices - 1) * input.interval_ms,
+      resiliency: { half_life_ms: resiliency.half_life_ms, calibrated },
+      assumptions,
+    };
+  }
+  
+  /**
+   * Fetch current orderbook for a market (or a historical snapshot with `{ at }`)
+   * 
+   * Served from a synced streaming book or from the snapshot cache when a
+   * fresh enough copy exists.
+   */
+  async getOrderbook(
+    venue: Venue,
+    marketId: string,
+    options?: OrderbookCacheOptions
+  ): Promise<OrderbookSnapshot> {
+    const streamed = options?.at ? undefined : this.orderbookStream?.getBook(venue, marketId);
+    if (streamed) return streamed.snapshot;
+    
+    if (!this.orderbookCache) {
+      throw new OrderbookUnavailableError(venue, marketId, 'Replay Labs client not configured. Initialize with replayLabsApiKey.');
+    }
+    const book = await this.orderbookCache.get(venue, marketId, options);
+    return book.snapshot;
+  }
+  
+  /**
+   * Get fee schedule for a venue (in force at `asOf`, default: latest)
+   */
+  getSchedule(venue: Venue, asOf?: string): FeeSchedule | undefined {
+    const calculator = this.calculators.get(venue);
+    return calculator?.getSchedule(asOf);
+  }
+  
+  /**
+   * Get every dated schedule version for a venue, oldest first
+   */
+  getScheduleVersions(venue: Venue): FeeSchedule[] {
+    const calculator = this.calculators.get(venue);
+    if (!calculator) return [];
+    return calculator.getScheduleVersions?.() ?? [calculator.getSchedule()];
+  }
+  
+  /**
+   * Add a dated fee schedule version for a venue
+   * 
+   * Estimates with `as_of` are priced with the version in force at that time.
+   */
+  addScheduleVersion(venue: Venue, schedule: unknown): void {
     const calculator = this.calculators.get(venue);
-    return calculator?.getSchedule();
+    if (!calculator) {
+      throw new UnsupportedVenueError(venue);
+    }
+    if (!calculator.addScheduleVersion) {
+      throw new UnsupportedVenueError(venue, `Calculator for ${venue} does not support dated schedule versions`);
+    }
+    calculator.addScheduleVersion(schedule);
   }
   
   /**
@@ -241,15 +1455,252 @@ export class CostOracle {
    * 
    * @param legs - Trade legs (buy/sell on different prediction market venues)
    * @param grossProfit - Expected gross profit before fees
+   *   (analyzeBinaryArbitrage derives it from the legs instead)
    * @param minProfitThresholdPct - Minimum profit % to be considered profitable (default 0.5%)
    * @param useLiveOrderbook - If true, uses live orderbook for spread/slippage (default: true if configured)
+   * @param options - `as_of` replays fees and orderbooks at a past moment; with `funding`,
+   *   profitability is judged after deposit/withdrawal/redeem costs
    */
   async analyzeArbitrage(
     legs: TradeLeg[],
     grossProfit: number,
     minProfitThresholdPct: number = 0.5,
-    useLiveOrderbook: boolean = true
+    useLiveOrderbook: boolean = true,
+    options: ArbitrageOptions = {}
   ): Promise<ArbitrageAnalysis> {
+    const legEstimates = await this.estimateArbitrageLegs(legs, useLiveOrderbook, options);
+    
+    // Calculate totals - use total_cost_usd if available (TradingCost), else total_fee_usd (FeeEstimate)
+    const totalCosts = legEstimates.reduce((sum, est) => {
+      // Check if it's a TradingCost (has total_cost_usd) or FeeEstimate (has total_fee_usd)
+      if ('total_cost_usd' in est) {
+        return sum + est.total_cost_usd;
+      }
+      return sum + est.total_fee_usd;
+    }, 0);
+    const netProfit = grossProfit - totalCosts;
+    // Legs may be sized in contracts, so sum the notional each estimate resolved
+    const totalSize = legEstimates.reduce((sum, est) => sum + est.size_usd, 0);
+    // Capital each leg ties up, as analyzeBinaryArbitrage counts it
+    const capitalPerLeg = legEstimates.map((est, i) => {
+      const leg = legs[i]!;
+      const walked = 'average_fill_price' in est ? est.average_fill_price : undefined;
+      const price = walked ?? leg.price ?? (est.size_contracts > 0 ? est.size_usd / est.size_contracts : 0);
+      const notional = 'notional_usd' in est ? est.notional_usd : est.size_usd;
+      // A USD-sized BUY ties up exactly its notional
+      if (leg.direction === 'BUY' && leg.size_contracts === undefined) return notional;
+      const contracts = leg.size_contracts ?? (price > 0 ? notional / price : 0);
+      return legCapital(leg.direction, contracts, price);
+    });
+    const funding = await this.fundingCosts(legs, capitalPerLeg, options);
+    const netAfterFunding = funding ? netProfit - funding.total : undefined;
+    const netProfitPct = totalSize > 0 ? ((netAfterFunding ?? netProfit) / totalSize) * 100 : 0;
+    
+    return {
+      legs,
+      gross_profit_usd: grossProfit,
+      total_fees_usd: totalCosts, // Now includes spread + slippage if live orderbook used
+      net_profit_usd: netProfit,
+      net_profit_pct: netProfitPct,
+      leg_estimates: legEstimates,
+      is_profitable: netProfitPct >= minProfitThresholdPct,
+      min_profit_threshold_pct: minProfitThresholdPct,
+      as_of: options.as_of,
+      funding_costs: funding?.costs,
+      net_profit_after_funding_usd: netAfterFunding,
+    };
+  }
+  
+  /**
+   * Analyze a binary arbitrage from the legs' own prices and outcomes
+   * 
+   * Instead of trusting a gross profit number, every leg is filled (book walk
+   * when a live source is configured, else at its `price`) and the position is
+   * settled both ways: held contracts of the winning outcome pay $1, sold ones
+   * owe $1. Gross profit per scenario is that payoff plus the premiums; net
+   * subtracts explicit fees (spread and slippage are already in walked
+   * fills; a leg filled at its `price` also pays its estimated implicit
+   * costs). A passive LIMIT leg holds only its expected fill, so a partial
+   * fill shows up as an unhedged scenario. The returned totals are the worst
+   * scenario, i.e. the guaranteed profit.
+   * 
+   * @param legs - Trade legs; each needs a price and outcome (default YES)
+   * @param minProfitThresholdPct - Minimum guaranteed profit % of capital (default 0.5%)
+   * @param useLiveOrderbook - Fill legs by walking live orderbooks (default: true if configured)
+   * @param options - `as_of` replays fees and orderbooks at a past moment
+   */
+  async analyzeBinaryArbitrage(
+    legs: TradeLeg[],
+    minProfitThresholdPct: number = 0.5,
+    useLiveOrderbook: boolean = true,
+    options: ArbitrageOptions = {}
+  ): Promise<BinaryArbitrageAnalysis> {
+    if (legs.length === 0) {
+      throw new InvalidParamsError('At least one leg is required', 'legs');
+    }
+    legs.forEach((leg, i) => {
+      if (leg.price === undefined) {
+        throw new InvalidParamsError(`legs[${i}].price is required to derive the payoff`, `legs[${i}].price`);
+      }
+    });
+    
+    const legEstimates = await this.estimateArbitrageLegs(legs, useLiveOrderbook, options);
+    
+    const fills: ArbitrageLegFill[] = legs.map((leg, i) => {
+      const est = legEstimates[i]!;
+      let contracts = est.size_contracts;
+      let fillPrice = leg.price!;
+      let fees: number;
+      let fillRatio: number | undefined;
+      if ('total_cost_usd' in est && est.average_fill_price !== undefined) {
+        // Spread and slippage are in the walked price; only fees remain
+        fees = est.explicit_cost_usd;
+        fillPrice = est.average_fill_price;
+        // USD-sized legs buy however many contracts the walk reached
+        if (leg.size_contracts === undefined && fillPrice > 0) contracts = est.notional_usd / fillPrice;
+      } else if ('total_cost_usd' in est && est.expected_fill_ratio !== undefined && est.expected_fill_ratio < 1) {
+        // Passive leg: only the expected fill is held; the unfilled part is not traded
+        fillRatio = est.expected_fill_ratio;
+        contracts *= fillRatio;
+        fees = est.total_cost_usd - (est.breakdown.opportunity_cost ?? 0);
+      } else if ('total_cost_usd' in est) {
+        // No walked price: the estimated spread and slippage count as costs
+        fees = est.total_cost_usd;
+      } else {
+        fees = est.total_fee_usd;
+      }
+      const premium = contracts * fillPrice;
+      return {
+        venue: leg.venue,
+        direction: leg.direction,
+        outcome: leg.outcome ?? 'YES',
+        event_outcome: leg.event_outcome ?? leg.outcome ?? 'YES',
+        contracts,
+        fill_price: fillPrice,
+        cash_flow_usd: leg.direction === 'BUY' ? -premium : premium,
+        fees_usd: fees,
+        expected_fill_ratio: fillRatio,
+      };
+    });
+    
+    const totalFees = fills.reduce((sum, f) => sum + f.fees_usd, 0);
+    const premiums = fills.reduce((sum, f) => sum + f.cash_flow_usd, 0);
+    const scenarios: ArbitrageScenario[] = (['YES', 'NO'] as const).map(resolution => {
+      const payoff = fills.reduce((sum, f) => {
+        if (f.event_outcome !== resolution) return sum;
+        return sum + (f.direction === 'BUY' ? f.contracts : -f.contracts);
+      }, 0);
+      const gross = payoff + premiums;
+      return {
+        resolution,
+        payoff_usd: payoff,
+        gross_profit_usd: gross,
+        net_profit_usd: gross - totalFees,
+      };
+    });
+    
+    const worst = scenarios.reduce((a, b) => (b.net_profit_usd < a.net_profit_usd ? b : a));
+    const capitalPerLeg = fills.map(f => legCapital(f.direction, f.contracts, f.fill_price));
+    const capital = capitalPerLeg.reduce((sum, c) => sum + c, 0);
+    const funding = await this.fundingCosts(legs, capitalPerLeg, options);
+    const netAfterFunding = funding ? worst.net_profit_usd - funding.total : undefined;
+    const netProfitPct = capital > 0 ? ((netAfterFunding ?? worst.net_profit_usd) / capital) * 100 : 0;
+    
+    return {
+      legs,
+      gross_profit_usd: worst.gross_profit_usd,
+      total_fees_usd: totalFees,
+      net_profit_usd: worst.net_profit_usd,
+      net_profit_pct: netProfitPct,
+      leg_estimates: legEstimates,
+      is_profitable: netProfitPct >= minProfitThresholdPct,
+      min_profit_threshold_pct: minProfitThresholdPct,
+      as_of: options.as_of,
+      funding_costs: funding?.costs,
+      net_profit_after_funding_usd: netAfterFunding,
+      fills,
+      scenarios,
+      capital_usd: capital,
+    };
+  }
+  
+  /**
+   * Expand event legs into venue legs using the market registry
+   * 
+   * Each leg trades the venue outcome that pays on the requested event
+   * outcome: on an INVERTED market, event YES is the venue's NO (same
+   * contract, so the same price). Polymarket legs get that outcome's token.
+   */
+  legsForEvent(eventId: string, legs: EventLeg[]): TradeLeg[] {
+    const event = this.marketRegistry.require(eventId);
+    return legs.map(leg => {
+      const market = event.markets.find(m => m.venue === leg.venue);
+      if (!market) {
+        throw new InvalidParamsError(`Event ${eventId} has no ${leg.venue} market`, 'venue');
+      }
+      const eventOutcome = leg.outcome ?? 'YES';
+      const outcome = venueOutcome(market, eventOutcome);
+      return {
+        venue: leg.venue,
+        direction: leg.direction,
+        size_usd: leg.size_usd,
+        size_contracts: leg.size_contracts,
+        price: leg.price,
+        outcome,
+        event_outcome: eventOutcome,
+        market_id: market.market_id,
+        token_id: market.token_ids?.[outcome],
+        order_type: leg.order_type,
+        account_id: leg.account_id,
+      };
+    });
+  }
+  
+  /**
+   * analyzeBinaryArbitrage for legs given by event id (see legsForEvent)
+   */
+  async analyzeEventArbitrage(
+    eventId: string,
+    legs: EventLeg[],
+    minProfitThresholdPct: number = 0.5,
+    useLiveOrderbook: boolean = true,
+    options: ArbitrageOptions = {}
+  ): Promise<BinaryArbitrageAnalysis> {
+    return this.analyzeBinaryArbitrage(this.legsForEvent(eventId, legs), minProfitThresholdPct, useLiveOrderbook, options);
+  }
+  
+  /**
+   * Funding costs for the venues in `funding`, each sized by the capital the
+   * legs put there (unless the route gives an amount)
+   */
+  private async fundingCosts(
+    legs: TradeLeg[],
+    capitalPerLeg: number[],
+    options: ArbitrageOptions
+  ): Promise<{ costs: FundingCostEstimate[]; total: number } | undefined> {
+    const { funding } = options;
+    if (!funding) return undefined;
+    const capital = new Map<Venue, number>();
+    legs.forEach((leg, i) => capital.set(leg.venue, (capital.get(leg.venue) ?? 0) + capitalPerLeg[i]!));
+    
+    const costs: FundingCostEstimate[] = [];
+    for (const [venue, amount] of capital) {
+      const route = funding[venue];
+      if (!route) continue;
+      costs.push(await this.estimateFundingCost(venue, route.amount_usd ?? amount, route, options));
+    }
+    return { costs, total: costs.reduce((sum, c) => sum + c.total_usd, 0) };
+  }
+  
+  /**
+   * Check the legs' venues can be arbitraged, then estimate every leg
+   * (TradingCost with a live source, FeeEstimate otherwise)
+   */
+  private async estimateArbitrageLegs(
+    legs: TradeLeg[],
+    useLiveOrderbook: boolean,
+    options: ArbitrageOptions
+  ): Promise<(FeeEstimate | TradingCost)[]> {
     // Validate that all legs are from compatible venues (prediction markets)
     const venues = legs.map(l => l.venue);
     const uniqueVenues = [...new Set(venues)];
@@ -260,8 +1711,9 @@ export class CostOracle {
           const v1 = uniqueVenues[i]!;
           const v2 = uniqueVenues[j]!;
           if (!canArbitrage(v1, v2)) {
-            throw new Error(
-              `Cross-venue arbitrage requires different venues. Got ${v1} and ${v2}.`
+            throw new InvalidParamsError(
+              `Cross-venue arbitrage requires different venues. Got ${v1} and ${v2}.`,
+              'legs'
             );
           }
         }
@@ -269,53 +1721,42 @@ export class CostOracle {
     }
     
     // Estimate TOTAL COST for each leg (fees + spread + slippage)
-    const useFullCost = useLiveOrderbook && this.replayLabsClient;
+    const useFullCost = useLiveOrderbook && (this.replayLabsClient || this.orderbookStream);
     
-    const legEstimates = await Promise.all(
+    return Promise.all(
       legs.map(leg => {
         if (useFullCost) {
           return this.estimateCost({
             venue: leg.venue,
             size_usd: leg.size_usd,
+            size_contracts: leg.size_contracts,
             order_type: leg.order_type ?? 'MARKET',
             price: leg.price,
+            outcome: leg.outcome,
             market_id: leg.market_id,
+            token_id: leg.token_id,
+            account_id: leg.account_id,
+            as_of: options.as_of,
+            signal: options.signal,
+            strict: options.strict,
             side: leg.direction,
           });
         } else {
           return this.estimate({
             venue: leg.venue,
             size_usd: leg.size_usd,
+            size_contracts: leg.size_contracts,
             order_type: leg.order_type ?? 'MARKET',
             price: leg.price,
+            outcome: leg.outcome,
             market_id: leg.market_id,
+            token_id: leg.token_id,
+            account_id: leg.account_id,
+            as_of: options.as_of,
           });
         }
       })
     );
-    
-    // Calculate totals - use total_cost_usd if available (TradingCost), else total_fee_usd (FeeEstimate)
-    const totalCosts = legEstimates.reduce((sum, est) => {
-      // Check if it's a TradingCost (has total_cost_usd) or FeeEstimate (has total_fee_usd)
-      if ('total_cost_usd' in est) {
-        return sum + est.total_cost_usd;
-      }
-      return sum + est.total_fee_usd;
-    }, 0);
-    const netProfit = grossProfit - totalCosts;
-    const totalSize = legs.reduce((sum, leg) => sum + leg.size_usd, 0);
-    const netProfitPct = totalSize > 0 ? (netProfit / totalSize) * 100 : 0;
-    
-    return {
-      legs,
-      gross_profit_usd: grossProfit,
-      total_fees_usd: totalCosts, // Now includes spread + slippage if live orderbook used
-      net_profit_usd: netProfit,
-      net_profit_pct: netProfitPct,
-      leg_estimates: legEstimates,
-      is_profitable: netProfitPct >= minProfitThresholdPct,
-      min_profit_threshold_pct: minProfitThresholdPct,
-    };
   }
   
   /**
@@ -323,7 +1764,7 @@ export class CostOracle {
    */
   async compareVenues(
     sizeUsd: number,
-    options?: { price?: number; order_type?: 'MARKET' | 'LIMIT' }
+    options?: { price?: number; order_type?: 'MARKET' | 'LIMIT'; account_id?: string }
   ): Promise<FeeEstimate[]> {
     const venues = this.getSupportedVenues();
     
@@ -333,6 +1774,7 @@ export class CostOracle {
         size_usd: sizeUsd,
         price: options?.price,
         order_type: options?.order_type ?? 'MARKET',
+        account_id: options?.account_id,
       }))
     );
   }
@@ -0,0 +1,87 @@
+/**
+ * Orderbook Helpers
+ *
+ * Normalized snapshot construction and YES/NO conversion for binary markets.
+ */
+
+import type { Venue, Outcome, OrderbookSnapshot, OrderbookLevel } from './types';
+
+/**
+ * Price of the other outcome (rounded to drop floating-point noise)
+ */
+export function complementPrice(price: number): number {
+  return Math.round((1 - price) * 1e6) / 1e6;
+}
+
+/**
+ * Build a normalized snapshot from sorted bid/ask levels
+ *
+ * Bids must be sorted highest first, asks lowest first, all quoted in
+ * `outcome` prices. Depth is price × quantity per level (each contract
+ * pays $1 at resolution).
+ */
+export function buildOrderbookSnapshot(
+  venue: Venue,
+  marketId: string,
+  timestamp: string,
+  bids: OrderbookLevel[],
+  asks: OrderbookLevel[],
+  outcome: Outcome = 'YES'
+): OrderbookSnapshot {
+  const bestBid = bids[0]?.price ?? 0;
+  const bestAsk = asks[0]?.price ?? 1;
+  const midPrice = (bestBid + bestAsk) / 2;
+  const spread = bestAsk - bestBid;
+  const spreadBps = midPrice > 0 ? (spread / midPrice) * 10000 : 0;
+
+  const bidDepthUsd = bids.reduce((sum, l) => sum + l.price * l.size, 0);
+  const askDepthUsd = asks.reduce((sum, l) => sum + l.price * l.size, 0);
+
+  return {
+    venue,
+    market_id: marketId,
+    outcome,
+    timestamp,
+    best_bid: bestBid,
+    best_ask: bestAsk,
+    mid_price: midPrice,
+    spread,
+    spread_bps: spreadBps,
+    bid_depth_usd: bidDepthUsd,
+    ask_depth_usd: askDepthUsd,
+    levels: [...bids, ...asks],
+  };
+}
+
+/**
+ * The same book quoted in the other outcome's prices
+ *
+ * In a binary market a bid for YES at p is an offer of NO at 1 - p (and
+ * vice versa), so the conversion is exact.
+ */
+export function invertOrderbook(orderbook: OrderbookSnapshot): OrderbookSnapshot {
+  const bids = orderbook.levels
+    .filter(l => l.side === 'ASK')
+    .map(l => ({ price: complementPrice(l.price), size: l.size, side: 'BID' as const }))
+    .sort((a, b) => b.price - a.price);
+  const asks = orderbook.levels
+    .filter(l => l.side === 'BID')
+    .map(l => ({ price: complementPrice(l.price), size: l.size, side: 'ASK' as const }))
+    .sort((a, b) => a.price - b.price);
+
+  return buildOrderbookSnapshot(
+    orderbook.venue,
+    orderbook.market_id,
+    orderbook.timestamp,
+    bids,
+    asks,
+    orderbook.outcome === 'NO' ? 'YES' : 'NO'
+  );
+}
+
+/**
+ * View of a book in `outcome` prices (inverting only when needed)
+ */
+export function orderbookForOutcome(orderbook: OrderbookSnapshot, outcome: Outcome): OrderbookSnapshot {
+  return orderbook.outcome === outcome ? orderbook : invertOrderbook(orderbook);
+}
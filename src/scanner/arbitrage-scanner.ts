@@ -0,0 +1,321 @@
+/**
+ * Arbitrage Scanner
+ *
+ * Re-evaluates a watchlist of matched market pairs on a schedule and emits
+ * an event when an opportunity opens, moves or closes:
+ * - Each scan prices every pair through the oracle (books come from its
+ *   stream or cache), at most `concurrency` pairs at a time
+ * - Scans never overlap: a slow scan delays the next one instead of queueing
+ * - Hysteresis (`openAfter` / `closeAfter`) and a per-pair change threshold
+ *   and rate limit keep a flickering opportunity from spamming subscribers
+ */
+
+import { EventEmitter } from 'node:events';
+import type { TradeLeg, ArbitrageAnalysis } from '../types';
+import type { CostOracle } from '../oracle';
+import { InvalidParamsError } from '../errors';
+
+/**
+ * Two or more legs trading the same event
+ */
+export interface WatchedPair {
+  /** Unique key, echoed on every event */
+  id: string;
+  legs: TradeLeg[];
+  /**
+   * Gross profit for analyzeArbitrage. Omit to derive it from the legs'
+   * prices and fills (analyzeBinaryArbitrage).
+   */
+  gross_profit_usd?: number;
+}
+
+export interface ArbitrageScannerConfig {
+  /** Time between scan starts in ms (default 5000) */
+  intervalMs?: number;
+  /** Minimum net profit % for an opportunity (default 0.5) */
+  minProfitThresholdPct?: number;
+  /** Pairs priced at once (default 4) */
+  concurrency?: number;
+  /** Profitable scans in a row before 'opened' (default 1) */
+  openAfter?: number;
+  /** Unprofitable scans in a row before 'closed' (default 2) */
+  closeAfter?: number;
+  /** Smallest move in net profit (USD) reported as 'changed' (default 1) */
+  changeThresholdUsd?: number;
+  /** Minimum ms between 'changed' events for one pair (default 1000) */
+  minChangeIntervalMs?: number;
+  /** Strict mode for every leg (see CostOracleConfig.strict) */
+  strict?: boolean;
+}
+
+/**
+ * Payload of 'opened', 'changed' and 'closed'
+ */
+export interface ArbitrageOpportunityEvent {
+  pair_id: string;
+  /** Analysis from the scan that triggered the event */
+  analysis: ArbitrageAnalysis;
+  /** When the opportunity was first reported */
+  opened_at: string;
+  /** Net profit at this pair's previous event ('changed' and 'closed') */
+  previous_net_profit_usd?: number;
+}
+
+/**
+ * Payload of 'scan_error': one pair could not be priced (its state is kept)
+ */
+export interface ScanFailure {
+  pair_id: string;
+  error: unknown;
+}
+
+/**
+ * Payload of 'scan': emitted after every scan
+ */
+export interface ScanSummary {
+  started_at: string;
+  duration_ms: number;
+  pairs: number;
+  failed: number;
+  /** Opportunities open after the scan */
+  open: number;
+}
+
+interface PairState {
+  pair: WatchedPair;
+  open: boolean;
+  hits: number;
+  misses: number;
+  opened_at?: string;
+  /** Analysis sent with the last event */
+  last_event?: ArbitrageAnalysis;
+  last_event_at_ms: number;
+}
+
+/**
+ * Arbitrage scanner
+ *
+ * Events: 'opened', 'changed', 'closed' (ArbitrageOpportunityEvent),
+ * 'scan_error' (ScanFailure), 'scan' (ScanSummary).
+ */
+export class ArbitrageScanner extends EventEmitter {
+  private oracle: CostOracle;
+  private intervalMs: number;
+  private minProfitThresholdPct: number;
+  private concurrency: number;
+  private openAfter: number;
+  private closeAfter: number;
+  private changeThresholdUsd: number;
+  private minChangeIntervalMs: number;
+  private strict?: boolean;
+
+  private pairs: Map<string, PairState> = new Map();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private scanning: Promise<ScanSummary> | null = null;
+  private controller: AbortController | null = null;
+
+  constructor(oracle: CostOracle, config: ArbitrageScannerConfig = {}) {
+    super();
+    this.oracle = oracle;
+    this.intervalMs = config.intervalMs ?? 5000;
+    this.minProfitThresholdPct = config.minProfitThresholdPct ?? 0.5;
+    this.concurrency = Math.max(1, config.concurrency ?? 4);
+    this.openAfter = Math.max(1, config.openAfter ?? 1);
+    this.closeAfter = Math.max(1, config.closeAfter ?? 2);
+    this.changeThresholdUsd = config.changeThresholdUsd ?? 1;
+    this.minChangeIntervalMs = config.minChangeIntervalMs ?? 1000;
+    this.strict = config.strict;
+  }
+
+  /**
+   * Add a pair to the watchlist (replaces a pair with the same id)
+   */
+  watch(pair: WatchedPair): void {
+    if (!pair.id) {
+      throw new InvalidParamsError('Watched pair needs an id', 'id');
+    }
+    if (pair.legs.length < 2) {
+      throw new InvalidParamsError(`Pair ${pair.id} needs at least 2 legs`, 'legs');
+    }
+    const existing = this.pairs.get(pair.id);
+    if (existing) {
+      existing.pair = pair;
+      return;
+    }
+    this.pairs.set(pair.id, { pair, open: false, hits: 0, misses: 0, last_event_at_ms: 0 });
+  }
+
+  /**
+   * Drop a pair; an open opportunity on it is closed with its last analysis
+   */
+  unwatch(pairId: string): void {
+    const state = this.pairs.get(pairId);
+    if (!state) return;
+    this.pairs.delete(pairId);
+    if (state.open && state.last_event) {
+      this.emit('closed', {
+        pair_id: pairId,
+        analysis: state.last_event,
+        opened_at: state.opened_at!,
+        previous_net_profit_usd: state.last_event.net_profit_usd,
+      } satisfies ArbitrageOpportunityEvent);
+    }
+  }
+
+  /**
+   * Pairs on the watchlist
+   */
+  getWatchlist(): WatchedPair[] {
+    return Array.from(this.pairs.values()).map(s => s.pair);
+  }
+
+  /**
+   * Ids of the pairs with an open opportunity
+   */
+  getOpenOpportunities(): string[] {
+    return Array.from(this.pairs.values()).filter(s => s.open).map(s => s.pair.id);
+  }
+
+  /**
+   * Scan now, then every `intervalMs` until stop()
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop scanning; an in-flight scan is cancelled and emits nothing more
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.controller?.abort();
+    await this.scanning?.catch(() => undefined);
+  }
+
+  /**
+   * Run one scan (joins the in-flight scan if there is one)
+   */
+  scanOnce(): Promise<ScanSummary> {
+    this.scanning ??= this.runScan().finally(() => {
+      this.scanning = null;
+    });
+    return this.scanning;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const started = Date.now();
+      this.scanOnce()
+        .catch(() => undefined)
+        .finally(() => {
+          // Next scan starts one interval after this one started, never overlapping it
+          if (this.running) this.schedule(Math.max(0, this.intervalMs - (Date.now() - started)));
+        });
+    }, delayMs);
+  }
+
+  private async runScan(): Promise<ScanSummary> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    this.controller = controller;
+    const queue = Array.from(this.pairs.values());
+    let failed = 0;
+
+    const worker = async () => {
+      for (let state = queue.shift(); state; state = queue.shift()) {
+        let analysis: ArbitrageAnalysis;
+        try {
+          analysis = await this.analyze(state.pair, controller.signal);
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          failed++;
+          this.emit('scan_error', { pair_id: state.pair.id, error } satisfies ScanFailure);
+          continue;
+        }
+        // Skip pairs that were stopped or unwatched mid-scan
+        if (controller.signal.aborted || this.pairs.get(state.pair.id) !== state) continue;
+        this.update(state, analysis);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, worker));
+    if (this.controller === controller) this.controller = null;
+
+    const summary: ScanSummary = {
+      started_at: new Date(startedAt).toISOString(),
+      duration_ms: Date.now() - startedAt,
+      pairs: this.pairs.size,
+      failed,
+      open: this.getOpenOpportunities().length,
+    };
+    if (!controller.signal.aborted) this.emit('scan', summary);
+    return summary;
+  }
+
+  private analyze(pair: WatchedPair, signal: AbortSignal): Promise<ArbitrageAnalysis> {
+    const options = { signal, strict: this.strict };
+    if (pair.gross_profit_usd === undefined) {
+      return this.oracle.analyzeBinaryArbitrage(pair.legs, this.minProfitThresholdPct, true, options);
+    }
+    return this.oracle.analyzeArbitrage(pair.legs, pair.gross_profit_usd, this.minProfitThresholdPct, true, options);
+  }
+
+  /**
+   * Apply one scan result to a pair and emit whatever changed
+   */
+  private update(state: PairState, analysis: ArbitrageAnalysis): void {
+    const now = Date.now();
+    const previous = state.last_event?.net_profit_usd;
+
+    if (!analysis.is_profitable) {
+      state.hits = 0;
+      state.misses++;
+      if (state.open && state.misses >= this.closeAfter) {
+        state.open = false;
+        this.emitEvent('closed', state, analysis, now, previous);
+      }
+      return;
+    }
+
+    state.misses = 0;
+    state.hits++;
+    if (!state.open) {
+      if (state.hits >= this.openAfter) {
+        state.open = true;
+        state.opened_at = new Date(now).toISOString();
+        this.emitEvent('opened', state, analysis, now, undefined);
+      }
+      return;
+    }
+
+    // Throttled moves are not lost: the next eligible scan compares against the last event
+    const moved = previous === undefined || Math.abs(analysis.net_profit_usd - previous) >= this.changeThresholdUsd;
+    if (moved && now - state.last_event_at_ms >= this.minChangeIntervalMs) {
+      this.emitEvent('changed', state, analysis, now, previous);
+    }
+  }
+
+  private emitEvent(
+    type: 'opened' | 'changed' | 'closed',
+    state: PairState,
+    analysis: ArbitrageAnalysis,
+    now: number,
+    previous: number | undefined
+  ): void {
+    state.last_event = analysis;
+    state.last_event_at_ms = now;
+    this.emit(type, {
+      pair_id: state.pair.id,
+      analysis,
+      opened_at: state.opened_at!,
+      previous_net_profit_usd: previous,
+    } satisfies ArbitrageOpportunityEvent);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Schedule History
+ * 
+ * Holds multiple dated versions of a venue's fee schedule so estimates can be
+ * priced with the fees in force at a point in time (`as_of`).
+ */
+
+import { InvalidParamsError, InvalidScheduleError } from '../errors';
+
+export interface ScheduleVersion<T> {
+  /** Schedule version string (e.g. "2.0.0") */
+  version: string;
+  /** When this version took effect (ISO 8601) */
+  effective_from: string;
+  /** The schedule itself (raw JSON or a compiled form) */
+  value: T;
+}
+
+export class ScheduleHistory<T> {
+  private versions: ScheduleVersion<T>[] = [];
+  
+  constructor(private readonly venue: string) {}
+  
+  /**
+   * Add a version (replaces an existing one with the same effective date)
+   */
+  add(version: string, effectiveFrom: string, value: T): void {
+    if (Number.isNaN(Date.parse(effectiveFrom))) {
+      throw new InvalidScheduleError(`Invalid effective_from for ${this.venue} schedule ${version}: ${effectiveFrom}`);
+    }
+    
+    const effectiveMs = Date.parse(effectiveFrom);
+    this.versions = this.versions.filter(v => Date.parse(v.effective_from) !== effectiveMs);
+    this.versions.push({ version, effective_from: effectiveFrom, value });
+    this.versions.sort((a, b) => Date.parse(a.effective_from) - Date.parse(b.effective_from));
+  }
+  
+  /**
+   * Version in force at `asOf` (latest version when omitted)
+   */
+  resolve(asOf?: string | Date): ScheduleVersion<T> {
+    const latest = this.versions[this.versions.length - 1];
+    if (!latest) {
+      throw new InvalidScheduleError(`No ${this.venue} fee schedule loaded`);
+    }
+    if (asOf === undefined) {
+      return latest;
+    }
+    
+    const asOfMs = typeof asOf === 'string' ? Date.parse(asOf) : asOf.getTime();
+    if (Number.isNaN(asOfMs)) {
+      throw new InvalidParamsError(`Invalid as_of timestamp: ${String(asOf)}`, 'as_of');
+    }
+    
+    for (let i = this.versions.length - 1; i >= 0; i--) {
+      const candidate = this.versions[i]!;
+      if (Date.parse(candidate.effective_from) <= asOfMs) {
+        return candidate;
+      }
+    }
+    
+    throw new InvalidParamsError(
+      `No ${this.venue} fee schedule in effect at ${new Date(asOfMs).toISOString()} ` +
+      `(earliest version ${this.versions[0]!.version} effective ${this.versions[0]!.effective_from})`,
+      'as_of'
+    );
+  }
+  
+  /**
+   * All versions, oldest first
+   */
+  list(): ScheduleVersion<T>[] {
+    return [...this.versions];
+  }
+}
@@ -12,6 +12,8 @@
 export type Venue = 'KALSHI' | 'POLYMARKET';
 
 export type OrderType = 'MARKET' | 'LIMIT';
+/** Side of a binary market (Kalshi YES/NO, Polymarket outcome tokens) */
+export type Outcome = 'YES' | 'NO';
 export type Confidence = 'high' | 'medium' | 'low';
 
 /**
@@ -63,23 +65,244 @@ export interface FeeEstimateParams {
   /** Trading venue */
   venue: Venue;
   
-  /** Trade size in USD */
-  size_usd: number;
+  /** Trade size in USD notional (give this or size_contracts) */
+  size_usd?: number;
+  
+  /** Trade size in contracts (alternative to size_usd; notional = contracts × price) */
+  size_contracts?: number;
   
   /** Order type (MARKET = taker, LIMIT = maker) */
   order_type?: OrderType;
   
-  /** Contract price (0-1 for prediction markets) */
+  /** Contract price of the traded outcome (0-1; for NO, the NO price) */
   price?: number;
   
+  /** Outcome traded (default YES) */
+  outcome?: Outcome;
+  
   /** Market/contract identifier */
   market_id?: string;
   
   /** Token/contract identifier (for Polymarket) */
   token_id?: string;
   
+  /** Series ticker (for Kalshi; derived from market_id when omitted) */
+  series_ticker?: string;
+  
+  /** Market category as listed by the venue (e.g. "Sports", "Economics") */
+  market_category?: string;
+  
   /** Pool address (for DEXs like Aerodrome) */
   pool_address?: string;
+  
+  /** Account whose registered fee profile should be applied (ACCOUNT_SPECIFIC mode) */
+  account_id?: string;
+  
+  /** Price with the fee schedule in force at this time (ISO 8601, default: now) */
+  as_of?: string;
+  
+  /** On-chain operations the trade needs, for gas (default: ['order_settlement']) */
+  gas_operations?: GasOperation[];
+  
+  /** Submitted through the venue's relayer, which pays the gas (default false) */
+  relayer?: boolean;
+  
+  /**
+   * Look up market metadata that is not cached, for fee classification
+   * (default: true with a configured marketMetadataProvider, false when
+   * metadata comes from the Replay Labs client)
+   */
+  fetch_market_metadata?: boolean;
+  
+  /** Maker rebate inputs for LIMIT orders (default: from market metadata) */
+  maker_rebate?: {
+    /** Market taker volume per day, USD */
+    taker_volume_usd?: number;
+    /** Maker's expected share of the market's liquidity (0-1) */
+    liquidity_share?: number;
+  };
+}
+
+/**
+ * On-chain operation with its own gas cost
+ * 
+ * order_settlement: matching a CLOB order; approval: token allowance;
+ * split/merge: minting or burning outcome token pairs; redeem: claiming
+ * winnings after resolution
+ */
+export type GasOperation = 'order_settlement' | 'approval' | 'split' | 'merge' | 'redeem';
+
+export const GAS_OPERATIONS: readonly GasOperation[] = ['order_settlement', 'approval', 'split', 'merge', 'redeem'];
+
+/**
+ * Live gas inputs (see GasPriceFeed)
+ */
+export interface GasPriceQuote {
+  gas_price_gwei: number;
+  /** Native token price in USD */
+  native_usd: number;
+  observed_at: string;
+}
+
+/**
+ * Expected maker rebate from a taker-fee-funded program
+ * 
+ * The day's pool is the market's taker fees times the program's share; a
+ * maker earns the pool times its share of the market's liquidity.
+ */
+export interface MakerRebateEstimate {
+  taker_volume_usd: number;
+  taker_fee_bps: number;
+  /** Taker fees paid back to makers per day */
+  pool_usd: number;
+  liquidity_share: number;
+  expected_daily_rebate_usd: number;
+}
+
+/**
+ * How a gas fee was priced
+ */
+export interface GasEstimate {
+  chain: string;
+  operations: GasOperation[];
+  gas_units: number;
+  /** Gas price used (the schedule average unless live) */
+  gas_price_gwei: number;
+  /** Native token price in USD (live quotes only) */
+  native_usd?: number;
+  cost_usd: number;
+  /** live: priced from a GasPriceFeed quote; schedule: scaled from the schedule's average cost */
+  source: 'live' | 'schedule';
+  /** relayer: the venue's relayer submits and pays for the transactions */
+  paid_by: 'trader' | 'relayer';
+}
+
+/**
+ * Account-specific fee rates for a single venue
+ * 
+ * Every field is optional - anything left undefined falls back to the
+ * public schedule. Coefficients apply to formula venues (Kalshi),
+ * basis points apply to notional-based venues (Polymarket) and override
+ * the formula when set on a formula venue.
+ */
+export interface AccountVenueRates {
+  /** Negotiated maker coefficient (fee = coefficient × C × P × (1-P)) */
+  maker_coefficient?: number;
+  
+  /** Negotiated taker coefficient (fee = coefficient × C × P × (1-P)) */
+  taker_coefficient?: number;
+  
+  /** Negotiated maker fee in basis points of notional */
+  maker_fee_bps?: number;
+  
+  /** Negotiated taker fee in basis points of notional */
+  taker_fee_bps?: number;
+  
+  /** Rebate paid back on maker fills, in basis points of notional */
+  maker_rebate_bps?: number;
+  
+  /** Rebate paid back on taker fills, in basis points of notional */
+  taker_rebate_bps?: number;
+  
+  /** Exchange fees waived entirely (e.g. promotional or market-maker program) */
+  fee_waived?: boolean;
+  
+  /** Negotiated volume tiers (replace the schedule's tiers for this account) */
+  volume_tiers?: VolumeTier[];
+}
+
+/**
+ * Fee profile for a trading account
+ * 
+ * Registered on the oracle and selected via `account_id` on estimate params.
+ */
+export interface AccountFeeProfile {
+  /** Unique account identifier */
+  account_id: string;
+  
+  /** Human-readable label */
+  label?: string;
+  
+  /** Per-venue rates (venues not listed use the public schedule) */
+  venues: Partial<Record<Venue, AccountVenueRates>>;
+  
+  /** Where these rates come from (e.g. "negotiated_agreement_2026Q1") */
+  source?: string;
+  
+  /** When these rates were last confirmed */
+  updated_at?: string;
+}
+
+/**
+ * Venue-reported facts about a market that affect its fees
+ */
+export interface MarketMetadata {
+  venue: Venue;
+  /** Market the metadata describes (condition id on Polymarket) */
+  market_id: string;
+  /** Fee rates the venue reports for this market, in basis points */
+  maker_fee_bps?: number;
+  taker_fee_bps?: number;
+  /** Category tags (e.g. "Crypto", "15M") */
+  tags?: string[];
+  /** Trading window (ISO 8601); its length identifies short-duration markets */
+  start_date?: string;
+  end_date?: string;
+  /** Traded volume over the last 24h, USD */
+  volume_24h_usd?: number;
+  /** Resting liquidity, USD */
+  liquidity_usd?: number;
+}
+
+/**
+ * Looks up market metadata (resolves undefined when the market is unknown)
+ */
+export type MarketMetadataProvider = (
+  venue: Venue,
+  ids: { market_id?: string; token_id?: string },
+  options?: { signal?: AbortSignal }
+) => Promise<MarketMetadata | undefined>;
+
+/**
+ * Fee class a market was priced as, and what decided it
+ * 
+ * - market_fee_rate: the venue reported the market's fee rate
+ * - market_metadata: class inferred from tags and trading window
+ * - default: no metadata available, standard rates assumed
+ */
+export interface FeeClassification {
+  market_class: 'standard' | 'short_duration_crypto';
+  source: 'market_fee_rate' | 'market_metadata' | 'default';
+}
+
+/**
+ * Field-level problem found while validating estimate parameters
+ */
+export interface ParamDiagnostic {
+  /** Parameter name (e.g. 'price', 'token_id') */
+  field: string;
+  
+  /** 'error' rejects the request; 'warning' is reported on the result */
+  severity: 'error' | 'warning';
+  
+  /** Machine-readable reason */
+  code: 'REQUIRED' | 'INVALID_TYPE' | 'OUT_OF_RANGE' | 'INVALID_VALUE' | 'IGNORED';
+  
+  /** Human-readable explanation */
+  message: string;
+  
+  /** Value that was supplied */
+  value?: unknown;
+}
+
+/**
+ * Default filled in for an omitted parameter
+ */
+export interface AppliedDefault {
+  field: string;
+  value: unknown;
+  /** Why this default, and how it affects the estimate */
+  reason: string;
 }
 
 /**
@@ -90,18 +313,31 @@ export interface FeeEstimateParams {
  * ⚠️ IMPORTANT: 
  * - PUBLIC_SCHEDULE mode: Uses static fee schedules, estimated spread/slippage
  * - LIVE_ORDERBOOK mode: Uses real-time orderbook for accurate spread/slippage
- * - Neither is account-accurate for fees (volume tiers, staking, etc.)
+ * - Neither is account-accurate for fees unless an `account_id` with a
+ *   registered AccountFeeProfile is supplied (ACCOUNT_SPECIFIC fees)
  */
 export interface TradingCost {
   /** Venue this estimate is for */
   venue: Venue;
   
-  /** Input trade size */
+  /** Trade size in USD notional (given, or contracts × price) */
   size_usd: number;
   
+  /** Trade size in contracts (given, or size_usd / price) */
+  size_contracts: number;
+  
+  /** Notional actually spent/received walking the book (size_usd without a live book) */
+  notional_usd: number;
+  
   /** Trade side (affects which side of book we cross) */
   side: 'BUY' | 'SELL';
   
+  /** Outcome traded */
+  outcome: Outcome;
+  
+  /** Account whose fee profile was applied (if any) */
+  account_id?: string;
+  
   // ═══════════════════════════════════════════════════════════════
   // EXPLICIT COSTS (fees charged by platform/chain)
   // ═══════════════════════════════════════════════════════════════
@@ -128,6 +364,12 @@ export interface TradingCost {
   /** Total implicit costs */
   implicit_cost_usd: number;
   
+  /** Passive LIMIT orders: expected fraction filled while resting (costs above are expectations) */
+  expected_fill_ratio?: number;
+  
+  /** Live sweeps: average price of the contracts the book walk filled */
+  average_fill_price?: number;
+  
   // ═══════════════════════════════════════════════════════════════
   // TOTALS
   // ═══════════════════════════════════════════════════════════════
@@ -157,8 +399,29 @@ export interface TradingCost {
   /** Timestamp of estimate */
   estimated_at: string;
   
+  /** Point in time the estimate was priced at (historical fees and orderbook) */
+  as_of?: string;
+  
+  /** Fee schedule version applied */
+  schedule_version?: string;
+  
+  /** How the market's fee class was determined (venues with per-market fee classes) */
+  fee_classification?: FeeClassification;
+  
+  /** Gas pricing behind gas_fee_usd (on-chain venues) */
+  gas?: GasEstimate;
+  
+  /** Maker rebate program estimate (per day; not included in breakdown.rebate) */
+  maker_rebate?: MakerRebateEstimate;
+  
   /** Orderbook snapshot used (if LIVE_ORDERBOOK mode) */
   orderbook_snapshot?: OrderbookSnapshot;
+  
+  /** Parameters that were omitted and filled with a default */
+  defaults_applied: AppliedDefault[];
+  
+  /** Non-fatal parameter problems (fatal ones throw InvalidParamsError) */
+  diagnostics: ParamDiagnostic[];
 }
 
 /**
@@ -168,7 +431,13 @@ export interface TradingCost {
  */
 export interface FeeEstimate {
   venue: Venue;
+  /** Trade size in USD notional */
   size_usd: number;
+  /** Trade size in contracts */
+  size_contracts: number;
+  /** Outcome traded */
+  outcome?: Outcome;
+  account_id?: string;
   total_fee_usd: number;
   fee_pct: number;
   breakdown: FeeBreakdown;
@@ -176,6 +445,22 @@ export interface FeeEstimate {
   mode: CostEstimateMode;
   assumptions: string[];
   estimated_at: string;
+  /** Fee schedule version applied */
+  schedule_version?: string;
+  /** When the applied schedule version took effect */
+  schedule_effective_from?: string;
+  /** How the market's fee class was determined (venues with per-market fee classes) */
+  fee_classification?: FeeClassification;
+  /** Gas pricing behind gas_fee (on-chain venues) */
+  gas?: GasEstimate;
+  /** Maker rebate program estimate (per day; not included in breakdown.rebate) */
+  maker_rebate?: MakerRebateEstimate;
+  /** Point in time the estimate was priced at (if not now) */
+  as_of?: string;
+  /** Parameters that were omitted and filled with a default (set by CostOracle) */
+  defaults_applied?: AppliedDefault[];
+  /** Non-fatal parameter problems (set by CostOracle) */
+  diagnostics?: ParamDiagnostic[];
 }
 
 /**
@@ -203,6 +488,26 @@ export interface CostBreakdown {
   spread_cost: number;
   slippage: number;
   
+  // Passive limit orders (expected values)
+  /** Expected adverse move on filled contracts */
+  adverse_selection?: number;
+  /** Unfilled contracts crossing later: half-spread plus taker fee */
+  opportunity_cost?: number;
+  /** Price the order rests at */
+  limit_price?: number;
+  /** Contracts queued ahead at that price */
+  queue_ahead_contracts?: number;
+  
+  // Limit orders: crossed (taker) vs resting (maker) split
+  /** Contracts filled immediately by crossing up to the limit */
+  taker_contracts?: number;
+  /** Taker fee on the crossed part */
+  taker_fee?: number;
+  /** Contracts left resting at the limit */
+  maker_contracts?: number;
+  /** Expected maker fee on the resting part (scaled by its fill ratio) */
+  maker_fee?: number;
+  
   // Market data (if available)
   best_bid?: number;
   best_ask?: number;
@@ -216,6 +521,8 @@ export interface CostBreakdown {
 export interface OrderbookSnapshot {
   venue: Venue;
   market_id: string;
+  /** Outcome whose prices the levels are quoted in */
+  outcome: Outcome;
   timestamp: string;
   best_bid: number;
   best_ask: number;
@@ -239,8 +546,15 @@ export interface OrderbookLevel {
 export interface VolumeTier {
   min_volume_usd: number;
   max_volume_usd?: number;
+  /** Fee rate in bps of notional (Kalshi without coefficients: relative to the first tier's rate) */
   maker_fee_bps: number;
   taker_fee_bps: number;
+  
+  /** Maker coefficient for formula venues (Kalshi; applies to maker-fee markets only) */
+  maker_coefficient?: number;
+  
+  /** Taker coefficient for formula venues (Kalshi) */
+  taker_coefficient?: number;
 }
 
 /**
@@ -251,6 +565,9 @@ export interface FeeSchedule {
   updated_at: string;
   version: string;
   
+  /** When this version took effect */
+  effective_from?: string;
+  
   /** Base maker fee in basis points */
   maker_fee_bps: number;
   
@@ -289,10 +606,50 @@ export interface FeeSchedule {
 export interface TradeLeg {
   venue: Venue;
   direction: 'BUY' | 'SELL';
-  size_usd: number;
+  /** Leg size in USD notional (give this or size_contracts) */
+  size_usd?: number;
+  /** Leg size in contracts */
+  size_contracts?: number;
   price?: number;
+  /** Outcome traded (default YES) */
+  outcome?: Outcome;
+  /** Event outcome this leg's contracts pay on, when the venue lists the event inverted (default: outcome) */
+  event_outcome?: Outcome;
   market_id?: string;
+  /** Outcome token (Polymarket live orderbooks are keyed by token) */
+  token_id?: string;
   order_type?: OrderType;
+  account_id?: string;
+}
+
+/**
+ * How capital moves in and out of one venue for a trade
+ * 
+ * Method names are keys of the funding schedule (e.g. KALSHI 'ach',
+ * POLYMARKET 'usdc_polygon'); omitted steps cost nothing.
+ */
+export interface FundingRoute {
+  deposit_method?: string;
+  withdrawal_method?: string;
+  /** Include the cost of redeeming settled positions (default true); the same gas as a 'redeem' gas operation */
+  redeem?: boolean;
+  /** Capital moved, USD (default: the capital the trade uses on this venue) */
+  amount_usd?: number;
+}
+
+/**
+ * Cost of moving capital in and out of one venue
+ */
+export interface FundingCostEstimate {
+  venue: Venue;
+  amount_usd: number;
+  deposit_method?: string;
+  deposit_fee_usd: number;
+  withdrawal_method?: string;
+  withdrawal_fee_usd: number;
+  redeem_fee_usd: number;
+  total_usd: number;
+  assumptions: string[];
 }
 
 /**
@@ -322,4 +679,202 @@ export interface ArbitrageAnalysis {
   
   /** Minimum profit threshold used */
   min_profit_threshold_pct: number;
+  
+  /** Point in time the legs were priced at (if not now) */
+  as_of?: string;
+  
+  /** Funding costs per venue (when ArbitrageOptions.funding is given) */
+  funding_costs?: FundingCostEstimate[];
+  
+  /** Net profit after trading costs and funding costs */
+  net_profit_after_funding_usd?: number;
+}
+
+/**
+ * How one leg of a binary arbitrage filled
+ */
+export interface ArbitrageLegFill {
+  venue: Venue;
+  direction: 'BUY' | 'SELL';
+  outcome: Outcome;
+  /** Event outcome the contracts pay on (differs from outcome on inverted markets) */
+  event_outcome: Outcome;
+  /** Contracts held: a passive leg's are scaled by its expected fill ratio */
+  contracts: number;
+  /** Book-walk average price when live, else the leg's price */
+  fill_price: number;
+  /** Premium paid (negative) or received (positive) */
+  cash_flow_usd: number;
+  /**
+   * Fees (exchange + gas - rebate), plus the estimated implicit costs when
+   * the fill price is not a book walk
+   */
+  fees_usd: number;
+  /** Passive legs not certain to fill completely */
+  expected_fill_ratio?: number;
+}
+
+/**
+ * Profit if the market resolves one way
+ */
+export interface ArbitrageScenario {
+  resolution: Outcome;
+  /** Paid out at resolution on held contracts, less what short contracts owe */
+  payoff_usd: number;
+  /** Payoff + premium cash flows */
+  gross_profit_usd: number;
+  /** Gross profit - fees */
+  net_profit_usd: number;
+}
+
+/**
+ * Binary arbitrage with profit derived from the legs' fills
+ *
+ * The ArbitrageAnalysis totals are the worst scenario. Spread and slippage
+ * are already in the fill prices, so `total_fees_usd` holds explicit fees only.
+ */
+export interface BinaryArbitrageAnalysis extends ArbitrageAnalysis {
+  fills: ArbitrageLegFill[];
+  /** YES-resolves and NO-resolves outcomes */
+  scenarios: ArbitrageScenario[];
+  /** Premium paid on buys plus collateral (1 - price) posted on sells */
+  capital_usd: number;
+}
+
+/**
+ * Constraint that capped a maxSizeForCost answer ('liquidity' = the whole visible side fits)
+ */
+export type MaxSizeBinding = 'max_cost_bps' | 'max_cost_usd' | 'max_price_impact_pct' | 'liquidity';
+
+/**
+ * Largest trade size within a cost budget
+ */
+export interface MaxSizeResult {
+  venue: Venue;
+  /** Market (Kalshi) or token (Polymarket) the book was walked for */
+  market_id: string;
+  side: 'BUY' | 'SELL';
+  outcome: Outcome;
+  
+  /** Largest size meeting every constraint (0 if none does) */
+  size_usd: number;
+  size_contracts: number;
+  
+  /** Full cost at that size (undefined when the size is 0) */
+  cost?: TradingCost;
+  
+  /** Constraint that stopped the size growing */
+  binding_constraint: MaxSizeBinding;
+  
+  /** USD the visible book can fill on this side */
+  available_usd: number;
+}
+
+/**
+ * One venue's share of a routed order
+ */
+export interface RouteAllocation {
+  venue: Venue;
+  /** Market (Kalshi) or token (Polymarket) the book was walked for */
+  market_id: string;
+  outcome: Outcome;
+  
+  /** Share of the order, in USD notional and contracts (0 if unused) */
+  size_usd: number;
+  size_contracts: number;
+  
+  /** Full cost of this share (undefined when nothing is routed here) */
+  cost?: TradingCost;
+  
+  /** All-in price per contract (fees included) of the last chunk routed here, or of the next one if none was */
+  marginal_price: number;
+}
+
+/**
+ * Cost of a routed order summed across venues
+ */
+export type BlendedCost = Pick<
+  TradingCost,
+  | 'size_usd'
+  | 'size_contracts'
+  | 'notional_usd'
+  | 'exchange_fee_usd'
+  | 'gas_fee_usd'
+  | 'explicit_cost_usd'
+  | 'spread_cost_usd'
+  | 'slippage_usd'
+  | 'implicit_cost_usd'
+  | 'total_cost_usd'
+  | 'total_cost_pct'
+  | 'confidence'
+> & {
+  /** All-in price per contract across venues (fees included) */
+  average_price: number;
+};
+
+/**
+ * Cost-minimizing split of one order across equivalent markets
+ */
+export interface RouteResult {
+  side: 'BUY' | 'SELL';
+  allocations: RouteAllocation[];
+  blended: BlendedCost;
+  /** All-in price per contract where the split settled (worst last chunk across used venues) */
+  marginal_price: number;
+}
+
+/**
+ * Cost of an order, or of one child order of an execution plan
+ */
+export type ExecutionCostSummary = Pick<
+  TradingCost,
+  | 'size_usd'
+  | 'size_contracts'
+  | 'exchange_fee_usd'
+  | 'gas_fee_usd'
+  | 'explicit_cost_usd'
+  | 'spread_cost_usd'
+  | 'slippage_usd'
+  | 'implicit_cost_usd'
+  | 'total_cost_usd'
+  | 'total_cost_pct'
+> & {
+  /** Average fill price (fees excluded) */
+  average_fill_price: number;
+};
+
+/**
+ * One child order of an execution plan
+ */
+export interface ExecutionSlice extends ExecutionCostSummary {
+  index: number;
+  /** Time since the first slice */
+  offset_ms: number;
+  levels_consumed: number;
+}
+
+/**
+ * Cost of working an order over time versus sweeping it at once
+ */
+export interface ExecutionPlan {
+  venue: Venue;
+  /** Market (Kalshi) or token (Polymarket) the book was walked for */
+  market_id: string;
+  side: 'BUY' | 'SELL';
+  outcome: Outcome;
+  
+  slices: ExecutionSlice[];
+  /** All slices together */
+  total: ExecutionCostSummary;
+  /** The same size in a single sweep of the same book */
+  one_shot: ExecutionCostSummary;
+  /** one_shot minus total cost (positive = working the order is cheaper) */
+  savings_usd: number;
+  
+  /** Time from the first to the last slice */
+  duration_ms: number;
+  /** Book refill model used, and whether it was fitted from snapshots */
+  resiliency: { half_life_ms: number; calibrated: boolean };
+  
+  assumptions: string[];
 }
@@ -0,0 +1,224 @@
+/**
+ * Parameter Validation
+ *
+ * Checks estimate parameters before any fee math runs, so bad input fails
+ * loudly with field-level diagnostics instead of producing silent zeros or
+ * negative fees, and records every default the oracle fills in.
+ */
+
+import type { FeeEstimateParams, ParamDiagnostic, AppliedDefault } from './types';
+import { GAS_OPERATIONS } from './types';
+import { InvalidParamsError } from './errors';
+
+export interface ValidateParamsOptions {
+  /** Params will be priced against a live orderbook (identifier checks apply) */
+  live?: boolean;
+  /** Validate and default `side` (cost estimates) */
+  requireSide?: boolean;
+}
+
+/**
+ * Params with defaults filled in
+ */
+export type ValidatedParams<T extends FeeEstimateParams> =
+  T & Required<Pick<FeeEstimateParams, 'size_usd' | 'size_contracts' | 'price' | 'order_type' | 'outcome'>>;
+
+export interface ParamValidationResult<T extends FeeEstimateParams> {
+  params: ValidatedParams<T>;
+  /** Every problem found, errors and warnings */
+  diagnostics: ParamDiagnostic[];
+  defaults_applied: AppliedDefault[];
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Identifier a venue's live orderbook is keyed by
+ *
+ * Kalshi books are per market ticker; Polymarket books are per outcome token
+ * (the CLOB token id), not per condition/market id.
+ */
+export function orderbookIdField(venue: FeeEstimateParams['venue']): 'market_id' | 'token_id' {
+  return venue === 'POLYMARKET' ? 'token_id' : 'market_id';
+}
+
+/**
+ * Validate estimate params and fill defaults (never throws)
+ */
+export function validateEstimateParams<T extends FeeEstimateParams & { side?: string; max_book_age_ms?: number; limit_price?: number }>(
+  params: T,
+  options: ValidateParamsOptions = {}
+): ParamValidationResult<T> {
+  const diagnostics: ParamDiagnostic[] = [];
+  const defaults: AppliedDefault[] = [];
+  const error = (field: string, code: ParamDiagnostic['code'], message: string, value?: unknown) =>
+    diagnostics.push({ field, severity: 'error', code, message, value });
+  const warning = (field: string, code: ParamDiagnostic['code'], message: string, value?: unknown) =>
+    diagnostics.push({ field, severity: 'warning', code, message, value });
+
+  // Size: exactly one of size_usd / size_contracts
+  const hasUsd = params.size_usd !== undefined && params.size_usd !== null;
+  const hasContracts = params.size_contracts !== undefined && params.size_contracts !== null;
+  const sizeField = hasContracts ? 'size_contracts' : 'size_usd';
+  const sizeValue = params[sizeField];
+  if (!hasUsd && !hasContracts) {
+    error('size_usd', 'REQUIRED', 'size_usd or size_contracts is required');
+  } else if (hasUsd && hasContracts) {
+    error('size_contracts', 'INVALID_VALUE', 'Give size_usd or size_contracts, not both', params.size_contracts);
+  } else if (!isFiniteNumber(sizeValue)) {
+    error(sizeField, 'INVALID_TYPE', `${sizeField} must be a finite number`, sizeValue);
+  } else if (sizeValue <= 0) {
+    error(sizeField, 'OUT_OF_RANGE', `${sizeField} must be greater than 0`, sizeValue);
+  }
+
+  // Price: a probability strictly between 0 and 1
+  let price = params.price;
+  if (price === undefined) {
+    price = 0.5;
+    defaults.push({ field: 'price', value: price, reason: 'No price given; priced at 50% probability' });
+  } else if (!isFiniteNumber(price)) {
+    error('price', 'INVALID_TYPE', 'price must be a finite number', price);
+  } else if (price <= 0 || price >= 1) {
+    error('price', 'OUT_OF_RANGE', 'price must be between 0 and 1 (exclusive)', price);
+  }
+
+  // Outcome
+  let outcome = params.outcome;
+  if (outcome === undefined) {
+    outcome = 'YES';
+    defaults.push({ field: 'outcome', value: outcome, reason: 'No outcome given; YES contracts priced' });
+  } else if (outcome !== 'YES' && outcome !== 'NO') {
+    error('outcome', 'INVALID_VALUE', "outcome must be 'YES' or 'NO'", outcome);
+  }
+
+  // Order type
+  let orderType = params.order_type;
+  if (orderType === undefined) {
+    orderType = 'LIMIT';
+    defaults.push({ field: 'order_type', value: orderType, reason: 'No order_type given; maker (LIMIT) fees applied' });
+  } else if (orderType !== 'MARKET' && orderType !== 'LIMIT') {
+    error('order_type', 'INVALID_VALUE', "order_type must be 'MARKET' or 'LIMIT'", orderType);
+  }
+
+  // Side (cost estimates only)
+  let side = params.side;
+  if (options.requireSide) {
+    if (side === undefined) {
+      side = 'BUY';
+      defaults.push({ field: 'side', value: side, reason: 'No side given; priced as a BUY (crossing the ask)' });
+    } else if (side !== 'BUY' && side !== 'SELL') {
+      error('side', 'INVALID_VALUE', "side must be 'BUY' or 'SELL'", side);
+    }
+  }
+
+  // Limit price: a probability, and it makes the order a LIMIT
+  if (params.limit_price !== undefined) {
+    if (!isFiniteNumber(params.limit_price)) {
+      error('limit_price', 'INVALID_TYPE', 'limit_price must be a finite number', params.limit_price);
+    } else if (params.limit_price <= 0 || params.limit_price >= 1) {
+      error('limit_price', 'OUT_OF_RANGE', 'limit_price must be between 0 and 1 (exclusive)', params.limit_price);
+    }
+    if (params.order_type === 'MARKET') {
+      warning('order_type', 'IGNORED', 'order_type MARKET is ignored when limit_price is given', params.order_type);
+    }
+    orderType = 'LIMIT';
+  }
+
+  if (params.as_of !== undefined && Number.isNaN(Date.parse(params.as_of))) {
+    error('as_of', 'INVALID_VALUE', 'as_of must be an ISO 8601 timestamp', params.as_of);
+  }
+
+  if (params.account_id !== undefined && (typeof params.account_id !== 'string' || params.account_id === '')) {
+    error('account_id', 'INVALID_VALUE', 'account_id must be a non-empty string', params.account_id);
+  }
+
+  if (params.max_book_age_ms !== undefined && !(isFiniteNumber(params.max_book_age_ms) && params.max_book_age_ms >= 0)) {
+    error('max_book_age_ms', 'OUT_OF_RANGE', 'max_book_age_ms must be a non-negative number', params.max_book_age_ms);
+  }
+
+  if (params.gas_operations !== undefined) {
+    if (!Array.isArray(params.gas_operations)) {
+      error('gas_operations', 'INVALID_TYPE', 'gas_operations must be an array', params.gas_operations);
+    } else {
+      const unknown = params.gas_operations.filter(op => !GAS_OPERATIONS.includes(op));
+      if (unknown.length > 0) {
+        error('gas_operations', 'INVALID_VALUE', `gas_operations must be among ${GAS_OPERATIONS.join(', ')}`, unknown);
+      }
+    }
+  }
+
+  const rebateInputs = params.maker_rebate;
+  if (rebateInputs?.taker_volume_usd !== undefined
+    && !(isFiniteNumber(rebateInputs.taker_volume_usd) && rebateInputs.taker_volume_usd >= 0)) {
+    error('maker_rebate.taker_volume_usd', 'OUT_OF_RANGE', 'taker_volume_usd must be a non-negative number', rebateInputs.taker_volume_usd);
+  }
+  if (rebateInputs?.liquidity_share !== undefined
+    && !(isFiniteNumber(rebateInputs.liquidity_share) && rebateInputs.liquidity_share >= 0 && rebateInputs.liquidity_share <= 1)) {
+    error('maker_rebate.liquidity_share', 'OUT_OF_RANGE', 'liquidity_share must be between 0 and 1', rebateInputs.liquidity_share);
+  }
+
+  // Venue/identifier compatibility
+  if (params.venue === 'KALSHI' && params.token_id !== undefined) {
+    warning('token_id', 'IGNORED', 'token_id is a Polymarket identifier and is ignored for Kalshi', params.token_id);
+  }
+  if (params.venue === 'KALSHI' && (params.gas_operations !== undefined || params.relayer !== undefined)) {
+    warning(
+      params.gas_operations !== undefined ? 'gas_operations' : 'relayer',
+      'IGNORED',
+      'Kalshi trades are off-chain; gas settings are ignored'
+    );
+  }
+  if (params.venue === 'POLYMARKET' && params.series_ticker !== undefined) {
+    warning('series_ticker', 'IGNORED', 'series_ticker is a Kalshi identifier and is ignored for Polymarket', params.series_ticker);
+  }
+  if (options.live) {
+    const idField = orderbookIdField(params.venue);
+    if (!params[idField]) {
+      warning(
+        idField,
+        'REQUIRED',
+        idField === 'token_id'
+          ? 'token_id is required for live Polymarket orderbooks (market_id is not a CLOB token); spread/slippage will be estimated'
+          : 'market_id is required for live orderbooks; spread/slippage will be estimated'
+      );
+    }
+  }
+
+  // Both sizes, converted at the (defaulted) price
+  const sizeUsd = hasContracts ? (params.size_contracts ?? 0) * price : params.size_usd;
+  const sizeContracts = hasContracts ? params.size_contracts : (params.size_usd ?? 0) / price;
+
+  return {
+    params: {
+      ...params,
+      size_usd: sizeUsd,
+      size_contracts: sizeContracts,
+      price,
+      outcome,
+      order_type: orderType,
+      ...(options.requireSide ? { side } : {}),
+    } as ValidatedParams<T>,
+    diagnostics,
+    defaults_applied: defaults,
+  };
+}
+
+/**
+ * Validate params, throwing InvalidParamsError if any diagnostic is an error
+ */
+export function assertValidEstimateParams<T extends FeeEstimateParams & { side?: string; max_book_age_ms?: number; limit_price?: number }>(
+  params: T,
+  options: ValidateParamsOptions = {}
+): ParamValidationResult<T> {
+  const result = validateEstimateParams(params, options);
+  const errors = result.diagnostics.filter(d => d.severity === 'error');
+  if (errors.length > 0) {
+    throw new InvalidParamsError(
+      `Invalid estimate params: ${errors.map(e => `${e.field}: ${e.message}`).join('; ')}`,
+      errors[0]!.field,
+      errors
+    );
+  }
+  return result;
+}
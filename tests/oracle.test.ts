@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { 
   FeeOracle, 
   getOracle, 
@@ -10,7 +10,39 @@ import {
   canArbitrage,
   VENUE_INFO,
   PREDICTION_VENUES,
+  VolumeLedger,
+  selectVolumeTier,
+  FormulaFeeCalculator,
+  validateScheduleDefinition,
+  ReplayLabsClient,
+  TokenBucket,
+  OracleError,
+  InvalidParamsError,
+  UpstreamHttpError,
+  OrderbookUnavailableError,
+  InsufficientLiquidityError,
+  GasPriceUnavailableError,
+  GasPriceTimeoutError,
+  invertOrderbook,
+  calculateSlippage,
+  calculateSlippageByContracts,
+  calculatePassiveOrderCost,
+  exponentialFillCurve,
+  calibrateResiliency,
+  buildOrderbookSnapshot,
+  MarketRegistry,
+  type MarketEvent,
+  type MarketMetadata,
+  type TradingCost,
+  GasPriceFeed,
+  jsonRpcGasPriceSource,
+  coinGeckoPolUsdSource,
 } from '../src';
+import polymarketSchedule from '../src/schedules/polymarket.json';
+import kalshiSchedule from '../src/schedules/kalshi.json';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 describe('FeeOracle', () => {
   let oracle: FeeOracle;
@@ -116,6 +148,1939 @@ describe('FeeOracle', () => {
   });
 });
 
+describe('Account fee profiles', () => {
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    oracle = createOracle({
+      accountProfiles: [{
+        account_id: 'desk-1',
+        venues: {
+          KALSHI: { taker_coefficient: 0.035, maker_rebate_bps: 10 },
+          POLYMARKET: { fee_waived: true },
+        },
+      }],
+    });
+  });
+  
+  it('should apply negotiated coefficients in ACCOUNT_SPECIFIC mode', async () => {
+    const estimate = await oracle.estimate({
+      venue: 'KALSHI',
+      size_usd: 1000,
+      price: 0.5,
+      order_type: 'MARKET',
+      account_id: 'desk-1',
+    });
+    
+    // 0.035 × 2000 × 0.5 × 0.5 = $17.50 (half the public $35)
+    expect(estimate.breakdown.exchange_fee).toBeCloseTo(17.5, 2);
+    expect(estimate.mode).toBe('ACCOUNT_SPECIFIC');
+    expect(estimate.account_id).toBe('desk-1');
+  });
+  
+  it('should apply rebates and waivers', async () => {
+    const maker = await oracle.estimate({
+      venue: 'KALSHI',
+      size_usd: 1000,
+      price: 0.5,
+      order_type: 'LIMIT',
+      account_id: 'desk-1',
+    });
+    expect(maker.breakdown.rebate).toBeCloseTo(1, 2);
+    expect(maker.total_fee_usd).toBeCloseTo(-1, 2);
+    
+    const poly = await oracle.estimate({
+      venue: 'POLYMARKET',
+      size_usd: 10000,
+      order_type: 'MARKET',
+      account_id: 'desk-1',
+    });
+    expect(poly.breakdown.exchange_fee).toBe(0);
+  });
+  
+  it('should flow account rates through estimateCost and analyzeArbitrage', async () => {
+    const cost = await oracle.estimateCost({
+      venue: 'KALSHI',
+      size_usd: 1000,
+      price: 0.5,
+      order_type: 'MARKET',
+      account_id: 'desk-1',
+    });
+    expect(cost.exchange_fee_usd).toBeCloseTo(17.5, 2);
+    expect(cost.account_id).toBe('desk-1');
+    
+    const arb = await oracle.analyzeArbitrage([
+      { venue: 'KALSHI', direction: 'BUY', size_usd: 1000, price: 0.5, account_id: 'desk-1' },
+      { venue: 'POLYMARKET', direction: 'SELL', size_usd: 1000, price: 0.55, account_id: 'desk-1' },
+    ], 50);
+    expect(arb.total_fees_usd).toBeLessThan(20);
+  });
+  
+  it('should throw for unknown account', async () => {
+    await expect(oracle.estimate({
+      venue: 'KALSHI',
+      size_usd: 1000,
+      account_id: 'nobody',
+    })).rejects.toThrow('No account profile registered');
+  });
+});
+
+describe('Volume tiers', () => {
+  const tiers = [
+    { min_volume_usd: 0, maker_fee_bps: 0, taker_fee_bps: 175, taker_coefficient: 0.07 },
+    { min_volume_usd: 100_000, maker_fee_bps: 0, taker_fee_bps: 150, taker_coefficient: 0.06 },
+    { min_volume_usd: 1_000_000, maker_fee_bps: 0, taker_fee_bps: 125, taker_coefficient: 0.05 },
+  ];
+  
+  it('should only count volume inside the rolling window', () => {
+    const ledger = new VolumeLedger({ windowDays: 30 });
+    const now = new Date('2026-03-31T00:00:00Z');
+    ledger.record({ venue: 'KALSHI', notional_usd: 50_000, executed_at: '2026-03-20T00:00:00Z' });
+    ledger.record({ venue: 'KALSHI', notional_usd: 70_000, executed_at: '2026-02-01T00:00:00Z' });
+    ledger.record({ venue: 'KALSHI', notional_usd: 10_000, account_id: 'desk-1', executed_at: '2026-03-20T00:00:00Z' });
+    
+    expect(ledger.getVolume('KALSHI', undefined, now)).toBe(50_000);
+    expect(ledger.getVolume('KALSHI', 'desk-1', now)).toBe(10_000);
+    expect(ledger.getVolume('POLYMARKET', undefined, now)).toBe(0);
+  });
+  
+  it('should select the tier and distance to the next one', () => {
+    const selection = selectVolumeTier(tiers, 250_000);
+    expect(selection?.index).toBe(1);
+    expect(selection?.distance_to_next_usd).toBe(750_000);
+    expect(selectVolumeTier(tiers, 2_000_000)?.next).toBeUndefined();
+  });
+  
+  it('should price with the tier reached by recorded volume', async () => {
+    const oracle = createOracle({
+      accountProfiles: [{ account_id: 'desk-1', venues: { KALSHI: { volume_tiers: tiers } } }],
+    });
+    oracle.recordVolume({ venue: 'KALSHI', account_id: 'desk-1', notional_usd: 150_000 });
+    
+    const estimate = await oracle.estimate({
+      venue: 'KALSHI',
+      size_usd: 1000,
+      price: 0.5,
+      order_type: 'MARKET',
+      account_id: 'desk-1',
+    });
+    
+    // 0.06 × 2000 × 0.25 = $30
+    expect(estimate.breakdown.exchange_fee).toBeCloseTo(30, 2);
+    expect(estimate.assumptions.some(a => a.includes('Volume tier 2/3'))).toBe(true);
+    expect(estimate.assumptions.some(a => a.includes('$850000 more volume'))).toBe(true);
+  });
+  
+  it('should price from the bundled schedule tiers', async () => {
+    const oracle = createOracle();
+    oracle.recordVolume({ venue: 'KALSHI', notional_usd: 150_000 });
+    const trade = { venue: 'KALSHI' as const, size_usd: 1000, price: 0.5, order_type: 'MARKET' as const };
+    
+    const published = await oracle.estimate(trade);
+    expect(published.breakdown.exchange_fee).toBeCloseTo(35, 2);
+    expect(published.assumptions.some(a => a.includes('Volume tier 1/1'))).toBe(true);
+    const sports = await oracle.estimate({ ...trade, market_id: 'KXSB-26-SEA', order_type: 'LIMIT' });
+    expect(sports.breakdown.exchange_fee).toBeCloseTo(8.75, 2); // 0.0175 × 2000 × 0.25
+    
+    // A bps-only tier on top of the bundled ladder: 150 of the first tier's 175 bps → coefficient 0.06
+    oracle.addScheduleVersion('KALSHI', {
+      ...kalshiSchedule,
+      version: '9.0.0',
+      effective_from: '2026-02-01T00:00:00Z',
+      volume_tiers: [...kalshiSchedule.volume_tiers, { min_volume_usd: 100_000, maker_fee_bps: 0, taker_fee_bps: 150 }],
+    });
+    const tiered = await oracle.estimate(trade);
+    expect(tiered.breakdown.exchange_fee).toBeCloseTo(30, 2);
+    expect(tiered.assumptions.some(a => a.includes('Volume tier 2/2'))).toBe(true);
+  });
+});
+
+describe('Schedule history', () => {
+  it('should price with the schedule in force at as_of', async () => {
+    const oracle = createOracle();
+    const current = oracle.getSchedule('KALSHI')!;
+    
+    // A hypothetical older version with a higher taker coefficient
+    oracle.addScheduleVersion('KALSHI', {
+      ...kalshiSchedule,
+      version: '1.0.0',
+      effective_from: '2025-01-01T00:00:00Z',
+      fee_rules: {
+        taker: { type: 'probability_coefficient', coefficient: 0.1 },
+        maker: { type: 'probability_coefficient', coefficient: 0 },
+      },
+    });
+    
+    const backtest = await oracle.estimate({
+      venue: 'KALSHI',
+      size_usd: 1000,
+      price: 0.5,
+      order_type: 'MARKET',
+      as_of: '2025-10-01T00:00:00Z',
+    });
+    expect(backtest.schedule_version).toBe('1.0.0');
+    expect(backtest.breakdown.exchange_fee).toBeCloseTo(50, 2);
+    
+    const today = await oracle.estimate({ venue: 'KALSHI', size_usd: 1000, price: 0.5, order_type: 'MARKET' });
+    expect(today.schedule_version).toBe(current.version);
+    expect(today.breakdown.exchange_fee).toBeCloseTo(35, 2);
+    
+    expect(oracle.getScheduleVersions('KALSHI').map(v => v.version)).toEqual(['1.0.0', current.version]);
+  });
+  
+  it('should throw when no schedule was in force yet', async () => {
+    const oracle = createOracle();
+    await expect(oracle.estimate({
+      venue: 'POLYMARKET',
+      size_usd: 1000,
+      as_of: '2020-01-01T00:00:00Z',
+    })).rejects.toThrow('No POLYMARKET fee schedule in effect');
+  });
+});
+
+describe('Historical orderbooks', () => {
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should request the snapshot at as_of and price against it', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(kalshiBook)));
+    vi.stubGlobal('fetch', fetchMock);
+    
+    const oracle = createOracle({ replayLabsApiKey: 'test-key', replayLabsBaseUrl: 'http://replay.test' });
+    const cost = await oracle.estimateCost({
+      venue: 'KALSHI',
+      size_usd: 100,
+      price: 0.42,
+      side: 'BUY',
+      order_type: 'MARKET',
+      market_id: 'KXSB-26-SEA',
+      as_of: '2026-02-08T23:30:00Z',
+    });
+    
+    expect(String(fetchMock.mock.calls[0]![0])).toBe(
+      'http://replay.test/api/kalshi/markets/KXSB-26-SEA/orderbook?at=2026-02-08T23%3A30%3A00.000Z'
+    );
+    expect(cost.as_of).toBe('2026-02-08T23:30:00Z');
+    expect(cost.orderbook_snapshot?.timestamp).toBe('2026-02-08T23:30:00.000Z');
+    expect(cost.orderbook_snapshot?.best_ask).toBeCloseTo(0.42, 6);
+    expect(cost.confidence).toBe('high');
+  });
+  
+  it('should reject invalid snapshot timestamps', async () => {
+    const client = new ReplayLabsClient({ apiKey: 'test-key' });
+    await expect(client.getOrderbook('KALSHI', 'KXSB-26-SEA', { at: 'yesterday' }))
+      .rejects.toThrow('Invalid orderbook timestamp');
+  });
+});
+
+describe('Orderbook cache', () => {
+  const kalshiBook = {
+    orderbook: { yes: [], yes_dollars: [['0.40', 1000]], no: [], no_dollars: [['0.58', 1000]] },
+  };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should coalesce concurrent requests and serve fresh snapshots from cache', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(kalshiBook)));
+    vi.stubGlobal('fetch', fetchMock);
+    
+    const oracle = createOracle({ replayLabsApiKey: 'test-key', orderbookCache: { maxAgeMs: 60_000 } });
+    const params = {
+      venue: 'KALSHI' as const,
+      size_usd: 100,
+      price: 0.42,
+      side: 'BUY' as const,
+      market_id: 'KXSB-26-SEA',
+    };
+    
+    const concurrent = await Promise.all([oracle.estimateCost(params), oracle.estimateCost(params)]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(concurrent[1]!.assumptions.some(a => a.includes('shared with concurrent request'))).toBe(true);
+    
+    const cached = await oracle.estimateCost(params);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cached.assumptions.some(a => a.startsWith('Orderbook cache hit'))).toBe(true);
+    
+    await oracle.estimateCost({ ...params, max_book_age_ms: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Replay Labs transport', () => {
+  const kalshiBook = {
+    orderbook: { yes: [], yes_dollars: [['0.40', 1000]], no: [], no_dollars: [['0.58', 1000]] },
+  };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should retry 429 and 5xx responses, honoring Retry-After', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } }))
+      .mockResolvedValueOnce(new Response('oops', { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(kalshiBook)));
+    vi.stubGlobal('fetch', fetchMock);
+    
+    const client = new ReplayLabsClient({ apiKey: 'retry-key', retryBaseDelayMs: 1, rateLimit: false });
+    const book = await client.getOrderbook('KALSHI', 'KXSB-26-SEA');
+    
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(book.best_bid).toBe(0.4);
+  });
+  
+  it('should release a retried response body before backing off', async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream({ pull: controller => controller.enqueue(new TextEncoder().encode('oops')), cancel });
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(body, { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify(kalshiBook))));
+    
+    const client = new ReplayLabsClient({ apiKey: 'retry-body-key', retryBaseDelayMs: 1, rateLimit: false });
+    await client.getOrderbook('KALSHI', 'KXSB-26-SEA');
+    
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should give up after maxRetries', async () => {
+    const fetchMock = vi.fn(async () => new Response('down', { status: 502, statusText: 'Bad Gateway' }));
+    vi.stubGlobal('fetch', fetchMock);
+    
+    const client = new ReplayLabsClient({ apiKey: 'giveup-key', maxRetries: 2, retryBaseDelayMs: 1, rateLimit: false });
+    await expect(client.getOrderbook('KALSHI', 'KXSB-26-SEA')).rejects.toThrow('Replay Labs API error: 502');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+  
+  it('should time out hung requests', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    })));
+    
+    const client = new ReplayLabsClient({ apiKey: 'timeout-key', timeoutMs: 20, maxRetries: 0, rateLimit: false });
+    await expect(client.getOrderbook('KALSHI', 'KXSB-26-SEA')).rejects.toThrow('timeout after 20ms');
+  });
+  
+  it('should propagate cancellation from estimateCost to fetch', async () => {
+    let fetchSignal: AbortSignal | undefined;
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      fetchSignal = init.signal!;
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    })));
+    
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'abort-key', rateLimit: false }));
+    
+    const controller = new AbortController();
+    const pending = oracle.estimateCost({
+      venue: 'KALSHI',
+      size_usd: 100,
+      market_id: 'KXSB-26-SEA',
+      signal: controller.signal,
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    controller.abort(new Error('user cancelled'));
+    
+    await expect(pending).rejects.toThrow('user cancelled');
+    expect(fetchSignal?.aborted).toBe(true);
+  });
+  
+  it('should rate limit with a token bucket', () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 1, burst: 2 });
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(true);
+    expect(bucket.tryAcquire()).toBe(false);
+    
+    expect(() => new TokenBucket({ requestsPerSecond: 0 }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_PARAMS', field: 'requestsPerSecond' }));
+    expect(() => new TokenBucket({ requestsPerSecond: 1, burst: 0 })).toThrow(InvalidParamsError);
+  });
+});
+
+describe('Typed errors and strict mode', () => {
+  const kalshiBook = {
+    orderbook: { yes: [], yes_dollars: [['0.40', 1000]], no: [], no_dollars: [['0.58', 1000]] },
+  };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  const liveOracle = (strict: boolean) => {
+    const oracle = createOracle({ strict });
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'strict-key', maxRetries: 0, rateLimit: false }));
+    return oracle;
+  };
+  
+  it('should expose machine-readable codes', async () => {
+    const oracle = createOracle();
+    
+    await expect(oracle.estimate({ venue: 'NOPE' as any, size_usd: 100 }))
+      .rejects.toMatchObject({ code: 'UNSUPPORTED_VENUE', venue: 'NOPE' });
+    await expect(oracle.estimate({ venue: 'KALSHI', size_usd: 100, as_of: 'not-a-date' }))
+      .rejects.toBeInstanceOf(InvalidParamsError);
+    await expect(oracle.estimate({ venue: 'KALSHI', size_usd: 100, account_id: 'ghost' }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'account_id' });
+  });
+  
+  it('should carry status and body on upstream HTTP errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('{"error":"maintenance"}', {
+      status: 503,
+      statusText: 'Service Unavailable',
+    })));
+    
+    const client = new ReplayLabsClient({ apiKey: 'http-error-key', maxRetries: 0, rateLimit: false });
+    const err = await client.getOrderbook('KALSHI', 'KXSB-26-SEA').catch(e => e);
+    
+    expect(err).toBeInstanceOf(UpstreamHttpError);
+    expect(err).toBeInstanceOf(OracleError);
+    expect(err.code).toBe('UPSTREAM_HTTP_ERROR');
+    expect(err.status).toBe(503);
+    expect(err.body).toBe('{"error":"maintenance"}');
+  });
+  
+  it('should fall back to estimates outside strict mode', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 500 })));
+    
+    const cost = await liveOracle(false).estimateCost({ venue: 'KALSHI', size_usd: 100, market_id: 'KXSB-26-SEA' });
+    
+    expect(cost.confidence).toBe('low');
+    expect(cost.assumptions).toContain('Orderbook fetch failed, using estimates');
+  });
+  
+  it('should surface upstream errors in strict mode', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 500 })));
+    
+    await expect(liveOracle(true).estimateCost({ venue: 'KALSHI', size_usd: 100, market_id: 'KXSB-26-SEA' }))
+      .rejects.toMatchObject({ code: 'UPSTREAM_HTTP_ERROR', status: 500 });
+  });
+  
+  it('should wrap network failures as orderbook unavailable in strict mode', async () => {
+    const networkError = new TypeError('fetch failed');
+    vi.stubGlobal('fetch', vi.fn(async () => { throw networkError; }));
+    
+    const err = await liveOracle(true)
+      .estimateCost({ venue: 'KALSHI', size_usd: 100, market_id: 'KXSB-26-SEA' })
+      .catch(e => e);
+    
+    expect(err).toBeInstanceOf(OrderbookUnavailableError);
+    expect(err.cause).toBe(networkError);
+  });
+  
+  it('should require an orderbook source and market_id in strict mode', async () => {
+    const oracle = createOracle({ strict: true });
+    
+    await expect(oracle.estimateCost({ venue: 'KALSHI', size_usd: 100, market_id: 'KXSB-26-SEA', mode: 'LIVE_ORDERBOOK' }))
+      .rejects.toBeInstanceOf(OrderbookUnavailableError);
+    await expect(liveOracle(true).estimateCost({ venue: 'KALSHI', size_usd: 100 }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'market_id' });
+    
+    // PUBLIC_SCHEDULE is an explicit choice, not a fallback
+    const cost = await oracle.estimateCost({ venue: 'KALSHI', size_usd: 100 });
+    expect(cost.mode).toBe('PUBLIC_SCHEDULE');
+  });
+  
+  it('should reject orders larger than the visible book in strict mode', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    
+    // 1000 contracts at 0.42 = $420 of asks
+    const err = await liveOracle(true)
+      .estimateCost({ venue: 'KALSHI', size_usd: 1000, market_id: 'KXSB-26-SEA', side: 'BUY' })
+      .catch(e => e);
+    
+    expect(err).toBeInstanceOf(InsufficientLiquidityError);
+    expect(err.requested_usd).toBe(1000);
+    expect(err.available_usd).toBeCloseTo(420);
+    
+    const lenient = await liveOracle(false)
+      .estimateCost({ venue: 'KALSHI', size_usd: 1000, market_id: 'KXSB-26-SEA', side: 'BUY' });
+    expect(lenient.confidence).toBe('medium');
+    expect(lenient.assumptions.some(a => a.startsWith('Book too thin'))).toBe(true);
+  });
+  
+  it('should allow a per-call strict override', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 500 })));
+    
+    await expect(liveOracle(false).estimateCost({ venue: 'KALSHI', size_usd: 100, market_id: 'KXSB-26-SEA', strict: true }))
+      .rejects.toBeInstanceOf(UpstreamHttpError);
+  });
+});
+
+describe('Param validation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should reject bad sizes and prices with field-level diagnostics', async () => {
+    const oracle = createOracle();
+    const err = await oracle.estimate({ venue: 'KALSHI', size_usd: -100, price: 1 }).catch(e => e);
+    
+    expect(err).toBeInstanceOf(InvalidParamsError);
+    expect(err.field).toBe('size_usd');
+    expect(err.diagnostics).toEqual([
+      expect.objectContaining({ field: 'size_usd', severity: 'error', code: 'OUT_OF_RANGE', value: -100 }),
+      expect.objectContaining({ field: 'price', severity: 'error', code: 'OUT_OF_RANGE', value: 1 }),
+    ]);
+  });
+  
+  it('should reject invalid enums and timestamps', async () => {
+    const oracle = createOracle();
+    
+    await expect(oracle.estimate({ venue: 'KALSHI', size_usd: 100, order_type: 'IOC' as any }))
+      .rejects.toMatchObject({ field: 'order_type' });
+    await expect(oracle.estimateCost({ venue: 'KALSHI', size_usd: 100, side: 'LONG' as any }))
+      .rejects.toMatchObject({ field: 'side' });
+    await expect(oracle.estimateCost({ venue: 'KALSHI', size_usd: 100, max_book_age_ms: -1 }))
+      .rejects.toMatchObject({ field: 'max_book_age_ms' });
+  });
+  
+  it('should record which defaults were applied', async () => {
+    const oracle = createOracle();
+    
+    const fee = await oracle.estimate({ venue: 'KALSHI', size_usd: 100 });
+    expect(fee.defaults_applied?.map(d => [d.field, d.value]))
+      .toEqual([['price', 0.5], ['outcome', 'YES'], ['order_type', 'LIMIT']]);
+    
+    const cost = await oracle.estimateCost({ venue: 'KALSHI', size_usd: 100, price: 0.3, outcome: 'NO', order_type: 'MARKET' });
+    expect(cost.defaults_applied.map(d => [d.field, d.value])).toEqual([['side', 'BUY']]);
+  });
+  
+  it('should warn about identifiers from the wrong venue', async () => {
+    const fee = await createOracle().estimate({ venue: 'KALSHI', size_usd: 100, price: 0.5, token_id: '123' });
+    
+    expect(fee.diagnostics).toEqual([
+      expect.objectContaining({ field: 'token_id', severity: 'warning', code: 'IGNORED' }),
+    ]);
+  });
+  
+  it('should require token_id for live Polymarket books', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'validation-key', rateLimit: false }));
+    
+    const cost = await oracle.estimateCost({ venue: 'POLYMARKET', size_usd: 100, price: 0.5, market_id: '0xabc' });
+    // No orderbook request
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).not.toContainEqual(expect.stringContaining('/book'));
+    expect(cost.diagnostics).toEqual([
+      expect.objectContaining({ field: 'token_id', severity: 'warning', code: 'REQUIRED' }),
+    ]);
+    expect(cost.assumptions).toContain('Spread/slippage estimated (no live orderbook)');
+    
+    await expect(oracle.estimateCost({ venue: 'POLYMARKET', size_usd: 100, market_id: '0xabc', strict: true }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'token_id' });
+  });
+});
+
+describe('YES/NO outcomes', () => {
+  // YES bids 0.40 (1000) / 0.39 (5000); NO bids 0.58 (1000) / 0.57 (5000)
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should build either outcome book from both Kalshi ladders', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    const client = new ReplayLabsClient({ apiKey: 'outcome-key', rateLimit: false });
+    
+    const yes = await client.getOrderbook('KALSHI', 'KXSB-26-SEA');
+    const no = await client.getOrderbook('KALSHI', 'KXSB-26-SEA', { outcome: 'NO' });
+    
+    expect(yes).toMatchObject({ outcome: 'YES', best_bid: 0.4, best_ask: 0.42 });
+    expect(no).toMatchObject({ outcome: 'NO', best_bid: 0.58, best_ask: 0.6 });
+    expect(invertOrderbook(yes)).toMatchObject({ outcome: 'NO', best_bid: 0.58, best_ask: 0.6 });
+  });
+  
+  it('should walk the NO side of a YES-quoted book', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    const yes = await new ReplayLabsClient({ apiKey: 'outcome-key', rateLimit: false }).getOrderbook('KALSHI', 'KXSB-26-SEA');
+    
+    // Buying NO lifts NO asks = 1 - YES bids: 1000 @ 0.60, then 5000 @ 0.61
+    const buyNo = calculateSlippage(yes, 900, 'BUY', 'NO');
+    expect(buyNo.levels_consumed).toBe(2);
+    expect(buyNo.effective_price).toBeGreaterThan(0.6);
+    
+    // Selling NO hits NO bids: 1000 @ 0.58
+    const sellNo = calculateSlippage(yes, 500, 'SELL', 'NO');
+    expect(sellNo.effective_price).toBeCloseTo(0.58);
+  });
+  
+  it('should price a NO trade end to end', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'outcome-key', rateLimit: false }));
+    
+    const cost = await oracle.estimateCost({
+      venue: 'KALSHI',
+      size_usd: 100,
+      price: 0.6,
+      outcome: 'NO',
+      side: 'BUY',
+      order_type: 'MARKET',
+      market_id: 'KXSB-26-SEA',
+    });
+    
+    expect(cost.outcome).toBe('NO');
+    expect(cost.orderbook_snapshot).toMatchObject({ outcome: 'NO', best_ask: 0.6 });
+    expect(cost.breakdown.best_ask).toBe(0.6);
+    // 100 / 0.60 ≈ 167 NO contracts × 0.07 × 0.6 × 0.4
+    expect(cost.exchange_fee_usd).toBeCloseTo(0.07 * (100 / 0.6) * 0.6 * 0.4);
+  });
+  
+  it('should treat a Polymarket token book as the traded outcome', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      market: 'm',
+      asset_id: 'no-token',
+      timestamp: '2026-01-15T12:00:00.000Z',
+      bids: [{ price: '0.36', size: '500' }],
+      asks: [{ price: '0.37', size: '500' }],
+    }))));
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'outcome-key', rateLimit: false }));
+    
+    const cost = await oracle.estimateCost({
+      venue: 'POLYMARKET',
+      size_usd: 37,
+      price: 0.37,
+      outcome: 'NO',
+      side: 'BUY',
+      token_id: 'no-token',
+    });
+    
+    expect(cost.orderbook_snapshot).toMatchObject({ outcome: 'NO', best_ask: 0.37 });
+  });
+});
+
+describe('Size in contracts', () => {
+  // YES asks 0.42 (1000) / 0.43 (5000) from NO bids 0.58 / 0.57
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should charge the same fee for contracts as for the equivalent USD size', async () => {
+    const oracle = createOracle();
+    
+    for (const venue of ['KALSHI', 'POLYMARKET'] as const) {
+      const byUsd = await oracle.estimate({ venue, size_usd: 100, price: 0.5, order_type: 'MARKET' });
+      const byContracts = await oracle.estimate({ venue, size_contracts: 200, price: 0.5, order_type: 'MARKET' });
+      
+      expect(byContracts.size_usd).toBeCloseTo(100);
+      expect(byContracts.size_contracts).toBe(200);
+      expect(byUsd.size_contracts).toBeCloseTo(200);
+      expect(byContracts.total_fee_usd).toBeCloseTo(byUsd.total_fee_usd);
+    }
+  });
+  
+  it('should use the contract count directly in the Kalshi formula', async () => {
+    const estimate = await new KalshiFeeCalculator().estimate({
+      venue: 'KALSHI', size_contracts: 150, price: 0.3, order_type: 'MARKET',
+    });
+    
+    expect(estimate.size_contracts).toBe(150);
+    expect(estimate.size_usd).toBeCloseTo(45);
+    expect(estimate.breakdown.exchange_fee).toBeCloseTo(0.07 * 150 * 0.3 * 0.7, 1);
+  });
+  
+  it('should require exactly one size', async () => {
+    const oracle = createOracle();
+    
+    await expect(oracle.estimate({ venue: 'KALSHI', price: 0.5 })).rejects.toMatchObject({ field: 'size_usd' });
+    await expect(
+      oracle.estimate({ venue: 'KALSHI', size_usd: 100, size_contracts: 200 })
+    ).rejects.toMatchObject({ field: 'size_contracts' });
+    await expect(
+      oracle.estimate({ venue: 'KALSHI', size_contracts: -5 })
+    ).rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'size_contracts' });
+  });
+  
+  it('should walk the book by contracts', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    const book = await new ReplayLabsClient({ apiKey: 'contracts-key', rateLimit: false }).getOrderbook('KALSHI', 'KXSB-26-SEA');
+    
+    // 1000 @ 0.42 then 500 @ 0.43
+    const result = calculateSlippageByContracts(book, 1500, 'BUY');
+    expect(result.contracts).toBe(1500);
+    expect(result.levels_consumed).toBe(2);
+    expect(result.notional_usd).toBeCloseTo(1000 * 0.42 + 500 * 0.43);
+    expect(result.unfilled_contracts).toBe(0);
+    
+    // Beyond the 6000 visible contracts
+    const thin = calculateSlippageByContracts(book, 7000, 'BUY');
+    expect(thin.unfilled_contracts).toBeCloseTo(1000);
+    expect(thin.unfilled_usd).toBeCloseTo(1000 * 0.43);
+    
+    // USD walks report contracts too
+    const byUsd = calculateSlippage(book, 420, 'BUY');
+    expect(byUsd.contracts).toBeCloseTo(1000);
+    expect(byUsd.notional_usd).toBe(420);
+  });
+  
+  it('should report contracts and book notional in live cost estimates', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'contracts-key', rateLimit: false }));
+    
+    const cost = await oracle.estimateCost({
+      venue: 'KALSHI',
+      size_contracts: 1500,
+      price: 0.42,
+      side: 'BUY',
+      order_type: 'MARKET',
+      market_id: 'KXSB-26-SEA',
+    });
+    
+    expect(cost.size_contracts).toBe(1500);
+    expect(cost.size_usd).toBeCloseTo(630);
+    expect(cost.notional_usd).toBeCloseTo(1000 * 0.42 + 500 * 0.43);
+    expect(cost.slippage_usd).toBeGreaterThan(0);
+  });
+  
+  it('should size arbitrage legs in contracts', async () => {
+    const oracle = createOracle();
+    const analysis = await oracle.analyzeArbitrage(
+      [
+        { venue: 'KALSHI', market_id: 'KXBTC-100K', direction: 'BUY', size_contracts: 200, price: 0.45 },
+        { venue: 'POLYMARKET', market_id: 'btc-100k', direction: 'SELL', size_usd: 100, price: 0.5 },
+      ],
+      10,
+      0.5,
+      false
+    );
+    
+    expect(analysis.leg_estimates[0]!.size_usd).toBeCloseTo(90);
+    expect(analysis.net_profit_pct).toBeCloseTo((analysis.net_profit_usd / 190) * 100);
+  });
+});
+
+describe('Max size for cost', () => {
+  // YES asks 0.42 (1000) / 0.43 (5000): $2,570 of visible depth
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'max-size-key', rateLimit: false }));
+  });
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should find the largest size within a bps budget', async () => {
+    const result = await oracle.maxSizeForCost('KALSHI', 'KXSB-26-SEA', 'BUY', { max_cost_bps: 700 });
+    
+    expect(result.binding_constraint).toBe('max_cost_bps');
+    expect(result.available_usd).toBeCloseTo(2570);
+    expect(result.size_usd).toBeGreaterThan(420);
+    expect(result.size_usd).toBeLessThan(2570);
+    expect(result.cost!.total_cost_pct * 100).toBeCloseTo(700, 0);
+    expect(result.cost!.mode).toBe('LIVE_ORDERBOOK');
+  });
+  
+  it('should name the tightest of several constraints', async () => {
+    const result = await oracle.maxSizeForCost('KALSHI', 'KXSB-26-SEA', 'BUY', {
+      max_cost_bps: 10000,
+      max_cost_usd: 20,
+    });
+    
+    expect(result.binding_constraint).toBe('max_cost_usd');
+    expect(result.cost!.total_cost_usd).toBeCloseTo(20, 1);
+  });
+  
+  it('should cap price impact', async () => {
+    const result = await oracle.maxSizeForCost('KALSHI', 'KXSB-26-SEA', 'BUY', { max_price_impact_pct: 0.5 });
+    const book = await oracle.getOrderbook('KALSHI', 'KXSB-26-SEA');
+    
+    expect(result.binding_constraint).toBe('max_price_impact_pct');
+    expect(calculateSlippage(book, result.size_usd, 'BUY').price_impact_pct).toBeCloseTo(0.5, 2);
+  });
+  
+  it('should return the whole side when it fits, and zero when nothing does', async () => {
+    const all = await oracle.maxSizeForCost('KALSHI', 'KXSB-26-SEA', 'BUY', { max_cost_bps: 10000 });
+    expect(all.binding_constraint).toBe('liquidity');
+    expect(all.size_usd).toBeCloseTo(2570);
+    
+    // Half-spread plus taker fee alone exceed 100 bps
+    const none = await oracle.maxSizeForCost('KALSHI', 'KXSB-26-SEA', 'BUY', { max_cost_bps: 100 });
+    expect(none.size_usd).toBe(0);
+    expect(none.cost).toBeUndefined();
+    expect(none.binding_constraint).toBe('max_cost_bps');
+  });
+  
+  it('should reject missing constraints and missing orderbooks', async () => {
+    await expect(oracle.maxSizeForCost('KALSHI', 'KXSB-26-SEA', 'BUY', {}))
+      .rejects.toBeInstanceOf(InvalidParamsError);
+    await expect(createOracle().maxSizeForCost('KALSHI', 'KXSB-26-SEA', 'BUY', { max_cost_bps: 150 }))
+      .rejects.toBeInstanceOf(OrderbookUnavailableError);
+  });
+});
+
+describe('Order routing', () => {
+  // Kalshi YES asks 0.42 (1000) / 0.43 (5000); Polymarket asks 0.44 (500) / 0.46 (5000)
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  const polymarketBook = {
+    market: 'sea-sb',
+    asset_id: 'sea-yes',
+    timestamp: '2026-01-15T12:00:00.000Z',
+    bids: [{ price: '0.41', size: '500' }],
+    asks: [{ price: '0.44', size: '500' }, { price: '0.46', size: '5000' }],
+  };
+  const markets = [
+    { venue: 'KALSHI' as const, market_id: 'KXSB-26-SEA' },
+    { venue: 'POLYMARKET' as const, token_id: 'sea-yes' },
+  ];
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(JSON.stringify(
+      url.includes('/polymarket/') ? polymarketBook : kalshiBook
+    ))));
+    oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'route-key', rateLimit: false }));
+  });
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should split an order where marginal all-in prices meet', async () => {
+    const route = await oracle.routeOrder({ markets, side: 'BUY', size_usd: 1000 });
+    const [kalshi, polymarket] = route.allocations;
+    
+    // Kalshi's first level (0.42 + 0.017 fee) beats Polymarket's 0.44, which beats Kalshi's second level
+    expect(kalshi!.size_usd).toBeGreaterThan(420);
+    expect(polymarket!.size_usd).toBeGreaterThan(0);
+    expect(polymarket!.size_usd).toBeLessThanOrEqual(230);
+    expect(kalshi!.size_usd + polymarket!.size_usd).toBeCloseTo(1000);
+    
+    expect(route.blended.size_usd).toBeCloseTo(1000);
+    expect(route.blended.total_cost_usd).toBeCloseTo(kalshi!.cost!.total_cost_usd + polymarket!.cost!.total_cost_usd);
+    expect(route.blended.average_price).toBeGreaterThan(0.42);
+    expect(route.marginal_price).toBeGreaterThanOrEqual(route.blended.average_price);
+  });
+  
+  it('should keep a small order on the cheapest venue', async () => {
+    const route = await oracle.routeOrder({ markets, side: 'BUY', size_usd: 200 });
+    
+    expect(route.allocations[0]!.size_usd).toBeCloseTo(200);
+    expect(route.allocations[1]!.size_usd).toBe(0);
+    expect(route.allocations[1]!.cost).toBeUndefined();
+    // Polymarket's next chunk is its best ask plus fees
+    expect(route.allocations[1]!.marginal_price).toBeGreaterThanOrEqual(0.44);
+  });
+  
+  it('should route in contracts', async () => {
+    const route = await oracle.routeOrder({ markets, side: 'BUY', size_contracts: 2000 });
+    
+    expect(route.blended.size_contracts).toBeCloseTo(2000);
+    expect(route.allocations.every(a => a.size_contracts > 0)).toBe(true);
+  });
+  
+  it('should not route past a thin book\'s visible depth', async () => {
+    // THIN: YES bid 0.49 (50), ask 0.40 (100); DEEP: YES bid 0.48 (200), ask 0.45 (5000)
+    const books: Record<string, unknown> = {
+      THIN: { orderbook: { yes: [], yes_dollars: [['0.49', 50]], no: [], no_dollars: [['0.60', 100]] } },
+      DEEP: { orderbook: { yes: [], yes_dollars: [['0.48', 200]], no: [], no_dollars: [['0.55', 5000]] } },
+    };
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(JSON.stringify(
+      books[url.includes('/THIN/') ? 'THIN' : 'DEEP']
+    ))));
+    const kalshiMarkets = [
+      { venue: 'KALSHI' as const, market_id: 'THIN' },
+      { venue: 'KALSHI' as const, market_id: 'DEEP' },
+    ];
+    
+    const buy = await oracle.routeOrder({ markets: kalshiMarkets, side: 'BUY', size_usd: 300 });
+    expect(buy.allocations[0]!.size_contracts).toBeCloseTo(100);
+    expect(buy.allocations[1]!.size_usd).toBeCloseTo(260);
+    
+    const sell = await oracle.routeOrder({ markets: kalshiMarkets, side: 'SELL', size_contracts: 200 });
+    expect(sell.allocations[0]!.size_contracts).toBeCloseTo(50);
+    expect(sell.allocations[1]!.size_contracts).toBeCloseTo(150);
+    
+    await expect(oracle.routeOrder({ markets: kalshiMarkets, side: 'SELL', size_contracts: 400 }))
+      .rejects.toBeInstanceOf(InsufficientLiquidityError);
+  });
+  
+  it('should reject an empty route and unsized orders', async () => {
+    await expect(oracle.routeOrder({ markets: [], side: 'BUY', size_usd: 100 }))
+      .rejects.toMatchObject({ field: 'markets' });
+    await expect(oracle.routeOrder({ markets, side: 'BUY' }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'size_usd' });
+  });
+});
+
+describe('Passive limit orders', () => {
+  // YES bids 0.40 (1000) / 0.39 (5000); YES asks 0.42 (1000) / 0.43 (5000)
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  const order = {
+    venue: 'KALSHI' as const,
+    market_id: 'KXSB-26-SEA',
+    side: 'BUY' as const,
+    size_contracts: 100,
+    price: 0.4,
+  };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  const liveOracle = (config?: Parameters<typeof createOracle>[0]) => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    const oracle = createOracle(config);
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'passive-key', rateLimit: false }));
+    return oracle;
+  };
+  
+  it('should queue behind the touch and apply the fill curve', async () => {
+    const book = await liveOracle().getOrderbook('KALSHI', 'KXSB-26-SEA');
+    const result = calculatePassiveOrderCost(book, 100, 'BUY');
+    
+    expect(result.limit_price).toBe(0.4);
+    expect(result.queue_ahead_contracts).toBe(1000);
+    // Exponential touch volume (mean 1000): (V/S)(e^(-Q/V) - e^(-(Q+S)/V))
+    expect(result.expected_fill_ratio).toBeCloseTo(10 * (Math.exp(-1) - Math.exp(-1.1)));
+    expect(result.spread_cost_usd).toBeLessThan(0);
+    expect(result.adverse_selection_usd).toBeCloseTo(result.expected_filled_contracts * 0.02 * 0.25);
+    expect(result.opportunity_cost_usd).toBeCloseTo(result.unfilled_contracts * 0.01);
+    
+    const certain = calculatePassiveOrderCost(book, 100, 'BUY', 'YES', {
+      fill_probability: () => 1,
+      adverse_selection_spread_fraction: 0,
+    });
+    expect(certain.opportunity_cost_usd).toBe(0);
+    expect(certain.spread_cost_usd).toBeCloseTo(-1);
+    
+    expect(exponentialFillCurve(1000)(0, 1)).toBeCloseTo(1, 2);
+    expect(exponentialFillCurve(1000)(1e6, 100)).toBeCloseTo(0);
+  });
+  
+  it('should price explicit LIMIT orders as resting orders', async () => {
+    const oracle = liveOracle();
+    const maker = await oracle.estimate({ ...order, order_type: 'LIMIT' });
+    const cost = await oracle.estimateCost({ ...order, order_type: 'LIMIT' });
+    
+    expect(cost.expected_fill_ratio).toBeGreaterThan(0);
+    expect(cost.expected_fill_ratio).toBeLessThan(1);
+    expect(cost.breakdown.limit_price).toBe(0.4);
+    expect(cost.breakdown.queue_ahead_contracts).toBe(1000);
+    expect(cost.slippage_usd).toBe(0);
+    expect(cost.spread_cost_usd).toBeLessThan(0);
+    expect(cost.exchange_fee_usd).toBeCloseTo(maker.total_fee_usd * cost.expected_fill_ratio!);
+    expect(cost.implicit_cost_usd).toBeCloseTo(
+      cost.spread_cost_usd + cost.breakdown.adverse_selection! + cost.breakdown.opportunity_cost!
+    );
+    
+    // Defaulted order types keep the crossing model
+    const defaulted = await oracle.estimateCost({ ...order });
+    expect(defaulted.expected_fill_ratio).toBeUndefined();
+  });
+  
+  it('should size a USD order at its resting price', async () => {
+    // YES bid 0.10 (1000) / ask 0.12 (1000): far from the 0.5 reference price
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      orderbook: { yes: [], yes_dollars: [['0.10', 1000]], no: [], no_dollars: [['0.88', 1000]] },
+    }))));
+    const oracle = createOracle({ limitOrderModel: { fill_probability: () => 1, adverse_selection_spread_fraction: 0 } });
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'passive-key', rateLimit: false }));
+    
+    const cost = await oracle.estimateCost({
+      venue: 'KALSHI', market_id: 'KXSB-26-SEA', side: 'BUY', size_usd: 100, order_type: 'LIMIT',
+    });
+    const maker = await oracle.estimate({
+      venue: 'KALSHI', market_id: 'KXSB-26-SEA', size_contracts: 1000, price: 0.1, order_type: 'LIMIT',
+    });
+    
+    expect(cost.breakdown.limit_price).toBe(0.1);
+    expect(cost.size_contracts).toBeCloseTo(1000);
+    expect(cost.breakdown.maker_contracts).toBeCloseTo(1000);
+    expect(cost.notional_usd).toBe(100);
+    expect(cost.spread_cost_usd).toBeCloseTo(-10); // 1000 × (0.10 - 0.11 mid)
+    expect(cost.exchange_fee_usd).toBeCloseTo(maker.total_fee_usd);
+  });
+  
+  it('should cost a never-filling order like crossing the spread', async () => {
+    const oracle = liveOracle({ limitOrderModel: { fill_probability: () => 0 } });
+    const passive = await oracle.estimateCost({ ...order, order_type: 'LIMIT' });
+    const taker = await oracle.estimateCost({ ...order, order_type: 'MARKET' });
+    
+    expect(passive.expected_fill_ratio).toBe(0);
+    expect(passive.exchange_fee_usd).toBe(0);
+    expect(passive.total_cost_usd).toBeCloseTo(taker.total_cost_usd);
+    
+    // Per-call model overrides the oracle default
+    const filled = await oracle.estimateCost({
+      ...order,
+      order_type: 'LIMIT',
+      limit_order_model: { fill_probability: () => 1 },
+    });
+    expect(filled.expected_fill_ratio).toBe(1);
+    expect(filled.total_cost_usd).toBeLessThan(taker.total_cost_usd);
+  });
+});
+
+describe('Marketable limit orders', () => {
+  // YES bids 0.40 (1000) / 0.39 (5000); YES asks 0.42 (1000) / 0.43 (5000)
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  const order = { venue: 'KALSHI' as const, market_id: 'KXSB-26-SEA', side: 'BUY' as const };
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(kalshiBook))));
+    oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'limit-key', rateLimit: false }));
+  });
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should stop the walk at the limit price', async () => {
+    const book = await oracle.getOrderbook('KALSHI', 'KXSB-26-SEA');
+    
+    const byContracts = calculateSlippageByContracts(book, 2000, 'BUY', 'YES', 0.42);
+    expect(byContracts.contracts).toBe(1000);
+    expect(byContracts.notional_usd).toBeCloseTo(420);
+    expect(byContracts.unfilled_contracts).toBe(1000);
+    expect(byContracts.slippage_usd).toBe(0);
+    
+    const byUsd = calculateSlippage(book, 1000, 'BUY', 'YES', 0.42);
+    expect(byUsd.notional_usd).toBeCloseTo(420);
+    expect(byUsd.unfilled_usd).toBeCloseTo(580);
+    expect(byUsd.unfilled_contracts).toBeCloseTo(580 / 0.42);
+    
+    expect(calculateSlippage(book, 100, 'BUY', 'YES', 0.41).unfilled_usd).toBe(100);
+  });
+  
+  it('should charge taker fees on the crossed part and maker fees on the rest', async () => {
+    const cost = await oracle.estimateCost({ ...order, size_contracts: 2000, limit_price: 0.42 });
+    
+    expect(cost.breakdown.taker_contracts).toBe(1000);
+    expect(cost.breakdown.maker_contracts).toBe(1000);
+    expect(cost.breakdown.taker_fee).toBeCloseTo(0.07 * 1000 * 0.42 * 0.58);
+    expect(cost.breakdown.limit_price).toBe(0.42);
+    // Nobody bids 0.42 yet: the remainder is first in the queue
+    expect(cost.breakdown.queue_ahead_contracts).toBe(0);
+    expect(cost.exchange_fee_usd).toBeCloseTo(cost.breakdown.taker_fee! + cost.breakdown.maker_fee!);
+    expect(cost.expected_fill_ratio).toBeGreaterThan(0.5);
+    expect(cost.notional_usd).toBeCloseTo(840);
+  });
+  
+  it('should rest a limit below the touch and sweep a limit through the book', async () => {
+    const resting = await oracle.estimateCost({ ...order, size_contracts: 500, limit_price: 0.41 });
+    expect(resting.breakdown.taker_contracts).toBe(0);
+    expect(resting.breakdown.maker_contracts).toBe(500);
+    expect(resting.slippage_usd).toBe(0);
+    
+    const sweep = await oracle.estimateCost({ ...order, size_contracts: 3000, limit_price: 0.45 });
+    expect(sweep.breakdown.taker_contracts).toBe(3000);
+    expect(sweep.breakdown.maker_contracts).toBe(0);
+    expect(sweep.expected_fill_ratio).toBe(1);
+    expect(sweep.slippage_usd).toBeGreaterThan(0);
+    expect(sweep.confidence).toBe('high');
+  });
+  
+  it('should validate limit_price', async () => {
+    await expect(oracle.estimateCost({ ...order, size_usd: 100, limit_price: 1.2 }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'limit_price' });
+    
+    const cost = await oracle.estimateCost({ ...order, size_usd: 100, limit_price: 0.42, order_type: 'MARKET' });
+    expect(cost.diagnostics).toContainEqual(expect.objectContaining({ field: 'order_type', code: 'IGNORED' }));
+  });
+  
+  it('should price a limit_price order as a LIMIT without a book', async () => {
+    const offline = createOracle();
+    const limit = { venue: 'KALSHI' as const, market_id: 'KXSB-26-SEA', size_contracts: 100, price: 0.42 };
+    
+    const fee = await offline.estimate({ ...limit, limit_price: 0.42, order_type: 'MARKET' });
+    const maker = await offline.estimate({ ...limit, order_type: 'LIMIT' });
+    
+    expect(fee.total_fee_usd).toBeCloseTo(maker.total_fee_usd);
+    expect(fee.assumptions.join(' ')).not.toContain('Taker order');
+  });
+});
+
+describe('Execution plans', () => {
+  // YES asks 0.42 (1000) / 0.43 (5000)
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  const order = {
+    venue: 'KALSHI' as const,
+    market_id: 'KXSB-26-SEA',
+    side: 'BUY' as const,
+    size_contracts: 2000,
+    price: 0.42,
+  };
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(JSON.stringify(
+      url.includes('/polymarket/')
+        ? { market: 'm', asset_id: 'tok', timestamp: '2026-01-15T12:00:00.000Z', bids: [], asks: [{ price: '0.5', size: '10000' }] }
+        : kalshiBook
+    ))));
+    oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'plan-key', rateLimit: false }));
+  });
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should beat the sweep when the book refills between slices', async () => {
+    const plan = await oracle.estimateExecutionPlan({
+      ...order, slices: 2, interval_ms: 60_000, resiliency: { half_life_ms: 0 },
+    });
+    
+    // One sweep takes 1000 @ 0.42 and 1000 @ 0.43; two refilled slices both fill at 0.42
+    expect(plan.one_shot.slippage_usd).toBeCloseTo(10);
+    expect(plan.slices).toHaveLength(2);
+    expect(plan.slices[1]!.offset_ms).toBe(60_000);
+    expect(plan.slices.every(s => s.average_fill_price === 0.42)).toBe(true);
+    expect(plan.total.slippage_usd).toBeCloseTo(0);
+    expect(plan.total.size_contracts).toBeCloseTo(2000);
+    // Plus lower fees: the sweep's second half fills at 0.43
+    expect(plan.one_shot.exchange_fee_usd).toBeGreaterThan(plan.total.exchange_fee_usd);
+    expect(plan.savings_usd).toBeCloseTo(10 + plan.one_shot.exchange_fee_usd - plan.total.exchange_fee_usd);
+    expect(plan.duration_ms).toBe(60_000);
+  });
+  
+  it('should only partly recover depth within one half-life', async () => {
+    const never = await oracle.estimateExecutionPlan({
+      ...order, slices: 2, interval_ms: 30_000, resiliency: { half_life_ms: Infinity },
+    });
+    expect(never.savings_usd).toBeCloseTo(0);
+    
+    const half = await oracle.estimateExecutionPlan({ ...order, slices: 2, interval_ms: 30_000 });
+    expect(half.resiliency).toEqual({ half_life_ms: 30_000, calibrated: false });
+    // Second slice: 500 refilled @ 0.42, then 500 @ 0.43
+    expect(half.slices[1]!.slippage_usd).toBeCloseTo(5);
+  });
+  
+  it('should charge child order fees at their fill price', async () => {
+    // YES asks 0.12 (10000): far from the 0.5 reference price
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      orderbook: { yes: [], yes_dollars: [['0.10', 10000]], no: [], no_dollars: [['0.88', 10000]] },
+    }))));
+    const plan = await oracle.estimateExecutionPlan({
+      venue: 'KALSHI', market_id: 'KXSB-26-SEA', side: 'BUY', size_contracts: 2000, slices: 2, interval_ms: 1000,
+    });
+    const child = await oracle.estimate({
+      venue: 'KALSHI', market_id: 'KXSB-26-SEA', size_contracts: 1000, price: 0.12, order_type: 'MARKET',
+    });
+    
+    expect(plan.total.exchange_fee_usd).toBeCloseTo(2 * child.total_fee_usd);
+    expect(plan.one_shot.exchange_fee_usd).toBeLessThan(2 * child.total_fee_usd * 1.01);
+  });
+  
+  it('should charge per-order costs on every child order', async () => {
+    const plan = await oracle.estimateExecutionPlan({
+      venue: 'POLYMARKET', token_id: 'tok', side: 'BUY', size_usd: 1000, slices: 4, interval_ms: 1000,
+    });
+    
+    expect(plan.total.gas_fee_usd).toBeCloseTo(4 * plan.one_shot.gas_fee_usd);
+    expect(plan.savings_usd).toBeLessThan(0);
+  });
+  
+  it('should fit resiliency from recorded snapshots', async () => {
+    const snapshot = (size: number, second: number) => buildOrderbookSnapshot(
+      'KALSHI', 'KXSB-26-SEA', `2026-01-15T12:00:${String(second).padStart(2, '0')}.000Z`,
+      [{ price: 0.4, size: 1000, side: 'BID' }], [{ price: 0.5, size, side: 'ASK' }]
+    );
+    // Depth knocked out, then recovering
+    const recovering = [1000, 200, 600, 800, 900, 950, 975].map((size, i) => snapshot(size, i));
+    const fitted = calibrateResiliency(recovering, 'BUY');
+    expect(fitted.half_life_ms).toBeGreaterThan(0);
+    expect(Number.isFinite(fitted.half_life_ms)).toBe(true);
+    
+    expect(calibrateResiliency([1000, 1000, 1000].map((size, i) => snapshot(size, i)), 'BUY').half_life_ms).toBe(0);
+    expect(() => calibrateResiliency(recovering.slice(0, 2), 'BUY')).toThrow(InvalidParamsError);
+    
+    const plan = await oracle.estimateExecutionPlan({ ...order, slices: 2, interval_ms: 1000, calibration_snapshots: recovering });
+    expect(plan.resiliency).toEqual({ half_life_ms: fitted.half_life_ms, calibrated: true });
+  });
+  
+  it('should fit NO resiliency from the YES bids of recorded snapshots', async () => {
+    // YES bids knocked out and recovering: the NO asks a NO buy consumes; YES asks stay flat
+    const recovering = [1000, 200, 600, 800, 900, 950, 975].map((size, i) => buildOrderbookSnapshot(
+      'KALSHI', 'KXSB-26-SEA', `2026-01-15T12:00:0${i}.000Z`,
+      [{ price: 0.4, size, side: 'BID' }], [{ price: 0.5, size: 1000, side: 'ASK' }]
+    ));
+    
+    const plan = await oracle.estimateExecutionPlan({
+      ...order, outcome: 'NO', price: 0.6, slices: 2, interval_ms: 1000, calibration_snapshots: recovering,
+    });
+    
+    expect(plan.resiliency.half_life_ms).toBeGreaterThan(0);
+    expect(plan.resiliency.half_life_ms).toBeCloseTo(calibrateResiliency(recovering, 'SELL').half_life_ms);
+    expect(calibrateResiliency(recovering, 'BUY').half_life_ms).toBe(0);
+  });
+  
+  it('should reject calibration snapshots of another market', async () => {
+    const other = [0, 1, 2].map(i => buildOrderbookSnapshot(
+      'KALSHI', 'KXOTHER', `2026-01-15T12:00:0${i}.000Z`,
+      [{ price: 0.4, size: 1000, side: 'BID' }], [{ price: 0.5, size: 1000 + i, side: 'ASK' }]
+    ));
+    
+    await expect(oracle.estimateExecutionPlan({ ...order, slices: 2, interval_ms: 1000, calibration_snapshots: other }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'calibration_snapshots' });
+  });
+  
+  it('should validate the schedule', async () => {
+    await expect(oracle.estimateExecutionPlan({ ...order, slices: 0, interval_ms: 1000 }))
+      .rejects.toMatchObject({ field: 'slices' });
+    await expect(oracle.estimateExecutionPlan({ ...order, slices: 2, interval_ms: -1 }))
+      .rejects.toMatchObject({ field: 'interval_ms' });
+  });
+});
+
+describe('Binary arbitrage', () => {
+  // YES asks 0.42 (1000) / 0.43 (5000)
+  const kalshiBook = {
+    orderbook: {
+      yes: [],
+      yes_dollars: [['0.40', 1000], ['0.39', 5000]],
+      no: [],
+      no_dollars: [['0.58', 1000], ['0.57', 5000]],
+    },
+  };
+  const legs = (contracts: number) => [
+    { venue: 'KALSHI' as const, market_id: 'KXSB-26-SEA', direction: 'BUY' as const, outcome: 'YES' as const, price: 0.42, size_contracts: contracts },
+    { venue: 'POLYMARKET' as const, token_id: 'no-tok', direction: 'BUY' as const, outcome: 'NO' as const, price: 0.55, size_contracts: contracts },
+  ];
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    oracle = createOracle();
+  });
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should derive gross profit from the book-walk fill prices', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(JSON.stringify(
+      url.includes('/polymarket/')
+        ? { market: 'm', asset_id: 'no-tok', timestamp: '2026-01-15T12:00:00.000Z', bids: [], asks: [{ price: '0.55', size: '10000' }] }
+        : kalshiBook
+    ))));
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'binary-key', rateLimit: false }));
+    
+    const analysis = await oracle.analyzeBinaryArbitrage(legs(2000));
+    
+    // Kalshi fills 1000 @ 0.42 + 1000 @ 0.43, not the quoted 0.42
+    expect(analysis.fills[0]!.fill_price).toBeCloseTo(0.425);
+    expect(analysis.fills[1]!.fill_price).toBeCloseTo(0.55);
+    // Either way 2000 contracts pay $1; premiums are 850 + 1100
+    for (const scenario of analysis.scenarios) {
+      expect(scenario.payoff_usd).toBeCloseTo(2000);
+      expect(scenario.gross_profit_usd).toBeCloseTo(50);
+    }
+    expect(analysis.gross_profit_usd).toBeCloseTo(50);
+    expect(analysis.total_fees_usd).toBeGreaterThan(0);
+    expect(analysis.net_profit_usd).toBeCloseTo(50 - analysis.total_fees_usd);
+    expect(analysis.capital_usd).toBeCloseTo(1950);
+  });
+  
+  it('should take the worst resolution when the legs are unbalanced', async () => {
+    const [yes, no] = legs(1000);
+    const analysis = await oracle.analyzeBinaryArbitrage([yes!, { ...no!, size_contracts: 800 }], 0.5, false);
+    
+    // Premiums 420 + 440; YES pays 1000, NO pays 800
+    const [ifYes, ifNo] = analysis.scenarios;
+    expect(ifYes!.gross_profit_usd).toBeCloseTo(140);
+    expect(ifNo!.gross_profit_usd).toBeCloseTo(-60);
+    expect(analysis.gross_profit_usd).toBeCloseTo(-60);
+    expect(analysis.net_profit_usd).toBeCloseTo(ifNo!.net_profit_usd);
+    expect(analysis.is_profitable).toBe(false);
+  });
+  
+  it('should count sold contracts as owed at resolution', async () => {
+    const analysis = await oracle.analyzeBinaryArbitrage([
+      { venue: 'KALSHI', market_id: 'KXSB-26-SEA', direction: 'BUY', outcome: 'YES', price: 0.42, size_contracts: 100 },
+      { venue: 'POLYMARKET', token_id: 'yes-tok', direction: 'SELL', outcome: 'YES', price: 0.48, size_contracts: 100 },
+    ], 0.5, false);
+    
+    // Long and short YES cancel: 6 cents per contract either way
+    for (const scenario of analysis.scenarios) {
+      expect(scenario.payoff_usd).toBeCloseTo(0);
+      expect(scenario.gross_profit_usd).toBeCloseTo(6);
+    }
+    // 42 premium + 52 collateral
+    expect(analysis.capital_usd).toBeCloseTo(94);
+  });
+  
+  it('should count estimated spread and slippage on legs without a book', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'binary-key', rateLimit: false, maxRetries: 0 }));
+    
+    const analysis = await oracle.analyzeBinaryArbitrage(legs(1000));
+    
+    analysis.fills.forEach((fill, i) => {
+      const cost = analysis.leg_estimates[i] as TradingCost;
+      expect(cost.implicit_cost_usd).toBeGreaterThan(0);
+      expect(fill.fill_price).toBe(legs(1000)[i]!.price);
+      expect(fill.fees_usd).toBeCloseTo(cost.total_cost_usd);
+    });
+    expect(analysis.net_profit_usd).toBeCloseTo(30 - analysis.total_fees_usd);
+  });
+  
+  it('should only hold the expected fill of a passive leg', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(JSON.stringify(
+      url.includes('/polymarket/')
+        ? { market: 'm', asset_id: 'no-tok', timestamp: '2026-01-15T12:00:00.000Z', bids: [], asks: [{ price: '0.55', size: '10000' }] }
+        : kalshiBook
+    ))));
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'binary-key', rateLimit: false }));
+    const [yes, no] = legs(1000);
+    
+    const analysis = await oracle.analyzeBinaryArbitrage([{ ...yes!, price: 0.4, order_type: 'LIMIT' }, no!]);
+    const passive = analysis.fills[0]!;
+    const ratio = (analysis.leg_estimates[0] as TradingCost).expected_fill_ratio!;
+    
+    expect(ratio).toBeLessThan(1);
+    expect(passive.expected_fill_ratio).toBe(ratio);
+    expect(passive.contracts).toBeCloseTo(1000 * ratio);
+    // The unfilled YES side leaves the NO leg unhedged if YES wins
+    expect(analysis.scenarios[0]!.payoff_usd).toBeCloseTo(1000 * ratio);
+    expect(analysis.is_profitable).toBe(false);
+  });
+  
+  it('should require a price on every leg', async () => {
+    const [yes, no] = legs(1000);
+    const { price: _price, ...unpriced } = no!;
+    await expect(oracle.analyzeBinaryArbitrage([yes!, unpriced], 0.5, false))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'legs[1].price' });
+  });
+});
+
+describe('Market registry', () => {
+  // Polymarket lists "Will SEA lose?": its YES is the event's NO
+  const event: MarketEvent = {
+    event_id: 'sb-2026-sea',
+    title: 'Seattle wins Super Bowl LX',
+    resolution_date: '2026-02-08T23:30:00Z',
+    resolution_source: 'NFL official results',
+    markets: [
+      { venue: 'KALSHI', market_id: 'KXSB-26-SEA' },
+      { venue: 'POLYMARKET', market_id: '0xabc', token_ids: { YES: 'sea-lose-yes', NO: 'sea-lose-no' }, polarity: 'INVERTED' },
+    ],
+  };
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    oracle = createOracle({ marketRegistry: new MarketRegistry([event]) });
+  });
+  
+  it('should round-trip through a JSON file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'registry-'));
+    try {
+      const path = join(dir, 'markets.json');
+      expect((await MarketRegistry.load(path)).list()).toEqual([]);
+      
+      await oracle.getMarketRegistry().save(path);
+      const loaded = await MarketRegistry.load(path);
+      
+      expect(loaded.get('sb-2026-sea')).toEqual(event);
+      expect(loaded.findByMarket('POLYMARKET', 'sea-lose-no')?.event_id).toBe('sb-2026-sea');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+  
+  it('should reject a market that already belongs to another event', () => {
+    const registry = oracle.getMarketRegistry();
+    expect(() => registry.add({ event_id: 'other', markets: [{ venue: 'KALSHI', market_id: 'KXSB-26-SEA' }] }))
+      .toThrow(InvalidParamsError);
+    expect(() => registry.add({ ...event, resolution_date: 'soon' })).toThrow(/resolution_date/);
+  });
+  
+  it('should validate markets and polarity from files', () => {
+    const file = (events: unknown[]) => ({ version: 1, events });
+    
+    expect(() => MarketRegistry.fromJSON(file([{ event_id: 'no-markets' }])))
+      .toThrow(expect.objectContaining({ code: 'INVALID_PARAMS', field: 'markets' }));
+    expect(() => MarketRegistry.fromJSON(file([{ event_id: 'bad', markets: { venue: 'KALSHI' } }])))
+      .toThrow(expect.objectContaining({ field: 'markets' }));
+    expect(() => MarketRegistry.fromJSON(file([
+      { event_id: 'sideways', markets: [{ venue: 'KALSHI', market_id: 'KXSIDE', polarity: 'OPPOSITE' }] },
+    ]))).toThrow(expect.objectContaining({ code: 'INVALID_PARAMS', field: 'polarity' }));
+  });
+  
+  it('should keep its own copy of added events', () => {
+    const added: MarketEvent = {
+      event_id: 'copied',
+      markets: [{ venue: 'POLYMARKET', market_id: '0xdef', token_ids: { YES: 'def-yes' } }],
+    };
+    const registry = new MarketRegistry([added]);
+    
+    added.markets[0]!.token_ids!.YES = 'changed';
+    added.markets.push({ venue: 'KALSHI', market_id: 'KXDEF' });
+    
+    expect(registry.get('copied')?.markets).toEqual([{ venue: 'POLYMARKET', market_id: '0xdef', token_ids: { YES: 'def-yes' } }]);
+    expect(registry.findByMarket('POLYMARKET', 'def-yes')?.event_id).toBe('copied');
+  });
+  
+  it('should expand event legs through outcome polarity', () => {
+    const legs = oracle.legsForEvent('sb-2026-sea', [
+      { venue: 'KALSHI', direction: 'BUY', outcome: 'YES', price: 0.42, size_contracts: 1000 },
+      { venue: 'POLYMARKET', direction: 'BUY', outcome: 'NO', price: 0.55, size_contracts: 1000 },
+    ]);
+    
+    expect(legs[0]).toMatchObject({ market_id: 'KXSB-26-SEA', outcome: 'YES', event_outcome: 'YES', price: 0.42 });
+    // Event NO is the inverted market's YES token
+    expect(legs[1]).toMatchObject({ token_id: 'sea-lose-yes', outcome: 'YES', event_outcome: 'NO', price: 0.55 });
+  });
+  
+  it('should settle inverted legs on the event outcome', async () => {
+    const analysis = await oracle.analyzeEventArbitrage('sb-2026-sea', [
+      { venue: 'KALSHI', direction: 'BUY', outcome: 'YES', price: 0.42, size_contracts: 1000 },
+      { venue: 'POLYMARKET', direction: 'BUY', outcome: 'NO', price: 0.55, size_contracts: 1000 },
+    ], 0.5, false);
+    
+    for (const scenario of analysis.scenarios) {
+      expect(scenario.payoff_usd).toBeCloseTo(1000);
+      expect(scenario.gross_profit_usd).toBeCloseTo(30);
+    }
+  });
+  
+  it('should reject unknown events and venues', () => {
+    expect(() => oracle.legsForEvent('nope', [])).toThrow(/Unknown event/);
+    oracle.getMarketRegistry().add({ event_id: 'kalshi-only', markets: [{ venue: 'KALSHI', market_id: 'KXOTHER' }] });
+    expect(() => oracle.legsForEvent('kalshi-only', [{ venue: 'POLYMARKET', direction: 'BUY' }]))
+      .toThrow(/no POLYMARKET market/);
+  });
+});
+
+describe('Polymarket fee classification', () => {
+  const trade = { venue: 'POLYMARKET' as const, market_id: '0xabc', size_usd: 1000, price: 0.5, order_type: 'MARKET' as const };
+  const metadata = (extra: Partial<MarketMetadata>): MarketMetadata => ({ venue: 'POLYMARKET', market_id: '0xabc', ...extra });
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should not guess from token ids', async () => {
+    const estimate = await createOracle().estimate({ ...trade, token_id: 'crypto-15m-minute' });
+    
+    expect(estimate.breakdown.exchange_fee).toBeCloseTo(0.1);
+    expect(estimate.fee_classification).toEqual({ market_class: 'standard', source: 'default' });
+  });
+  
+  it('should classify short-duration crypto from tags', async () => {
+    const oracle = createOracle({ marketMetadataProvider: async () => metadata({ tags: ['Crypto', '15M'] }) });
+    
+    const estimate = await oracle.estimate(trade);
+    
+    expect(estimate.breakdown.exchange_fee).toBeCloseTo(5); // 50 bps
+    expect(estimate.fee_classification).toEqual({ market_class: 'short_duration_crypto', source: 'market_metadata' });
+  });
+  
+  it('should classify by trading window length', async () => {
+    const window = (hours: number) => metadata({
+      tags: ['Crypto'],
+      start_date: '2026-01-15T12:00:00Z',
+      end_date: new Date(Date.parse('2026-01-15T12:00:00Z') + hours * 3_600_000).toISOString(),
+    });
+    
+    const daily = await createOracle({ marketMetadataProvider: async () => window(24) }).estimate(trade);
+    const hourly = await createOracle({ marketMetadataProvider: async () => window(0.25) }).estimate(trade);
+    
+    expect(daily.fee_classification?.market_class).toBe('standard');
+    expect(hourly.fee_classification?.market_class).toBe('short_duration_crypto');
+  });
+  
+  it('should prefer a fee rate reported by the market', async () => {
+    const oracle = createOracle({ marketMetadataProvider: async () => metadata({ taker_fee_bps: 25, tags: ['Crypto', '15M'] }) });
+    
+    const estimate = await oracle.estimate(trade);
+    
+    expect(estimate.breakdown.exchange_fee).toBeCloseTo(2.5);
+    expect(estimate.fee_classification?.source).toBe('market_fee_rate');
+  });
+  
+  it('should read metadata through Replay Labs and cache it', async () => {
+    const fetchMock = vi.fn(async (url: string) => new Response(JSON.stringify(
+      url.includes('/clob/markets/')
+        ? { condition_id: '0xabc', tags: ['Crypto', 'Up or Down'], maker_base_fee: 0, taker_base_fee: 50, end_date_iso: null }
+        : { market: '0xabc', asset_id: 'tok', timestamp: '2026-01-15T12:00:00.000Z', bids: [{ price: '0.49', size: '10000' }], asks: [{ price: '0.51', size: '10000' }] }
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'metadata-key', rateLimit: false }));
+    
+    const cost = await oracle.estimateCost({ ...trade, token_id: 'tok', side: 'BUY', fetch_market_metadata: true });
+    await oracle.estimateCost({ ...trade, token_id: 'tok', side: 'BUY', fetch_market_metadata: true });
+    
+    expect(cost.exchange_fee_usd).toBeCloseTo(5);
+    expect(cost.fee_classification).toEqual({ market_class: 'standard', source: 'market_fee_rate' });
+    expect(fetchMock.mock.calls.filter(([url]) => String(url).includes('/clob/markets/0xabc'))).toHaveLength(1);
+  });
+  
+  it('should resolve the market from a token id', async () => {
+    const fetchMock = vi.fn(async (url: string) => new Response(JSON.stringify(
+      url.includes('/clob/markets/')
+        ? { condition_id: '0xbtc', tags: ['Crypto', '15M'], end_date_iso: null }
+        : { market: '0xbtc', asset_id: 'btc-up', timestamp: '2026-01-15T12:00:00.000Z', bids: [{ price: '0.49', size: '10000' }], asks: [{ price: '0.51', size: '10000' }] }
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'metadata-key', rateLimit: false }));
+    
+    const cost = await oracle.estimateCost({
+      venue: 'POLYMARKET', token_id: 'btc-up', size_usd: 1000, price: 0.5, order_type: 'MARKET', side: 'BUY',
+      fetch_market_metadata: true,
+    });
+    
+    expect(cost.fee_classification).toEqual({ market_class: 'short_duration_crypto', source: 'market_metadata' });
+    expect(cost.exchange_fee_usd).toBeCloseTo(5); // 50 bps
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes('/clob/markets/0xbtc'))).toBe(true);
+  });
+  
+  it('should only fetch Replay Labs metadata when asked for', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(
+      { condition_id: '0xabc', tags: ['Crypto', '15M'], end_date_iso: null }
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+    const oracle = createOracle();
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'metadata-key', rateLimit: false }));
+    
+    const feeOnly = await oracle.estimate(trade);
+    await oracle.estimate({ ...trade, order_type: 'LIMIT' });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(feeOnly.fee_classification?.source).toBe('default');
+    
+    await oracle.estimate({ ...trade, fetch_market_metadata: true });
+    const cached = await oracle.estimate(trade);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cached.fee_classification).toEqual({ market_class: 'short_duration_crypto', source: 'market_metadata' });
+  });
+  
+  it('should not abort a shared lookup for one cancelled caller', async () => {
+    let lookupSignal: AbortSignal | undefined;
+    const oracle = createOracle({
+      marketMetadataProvider: async (_venue, _ids, options) => {
+        lookupSignal = options?.signal;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return metadata({ tags: ['Crypto', '15M'] });
+      },
+    });
+    
+    const controller = new AbortController();
+    const cancelled = oracle.estimateCost({ ...trade, signal: controller.signal });
+    const kept = oracle.estimateCost(trade);
+    controller.abort(new Error('user cancelled'));
+    
+    await expect(cancelled).rejects.toThrow('user cancelled');
+    expect((await kept).fee_classification?.source).toBe('market_metadata');
+    expect(lookupSignal?.aborted).toBe(false);
+  });
+  
+  it('should fall back to standard fees when the lookup fails', async () => {
+    let calls = 0;
+    const oracle = createOracle({
+      marketMetadataProvider: async () => {
+        calls++;
+        throw new Error('metadata down');
+      },
+    });
+    
+    const estimate = await oracle.estimate(trade);
+    await oracle.estimate(trade);
+    
+    expect(estimate.fee_classification?.source).toBe('default');
+    expect(calls).toBe(2);
+  });
+});
+
+describe('Polygon gas', () => {
+  const trade = { venue: 'POLYMARKET' as const, token_id: 'tok', size_usd: 1000, price: 0.5, order_type: 'MARKET' as const };
+  
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('should scale the schedule average by operation gas units', async () => {
+    const oracle = createOracle();
+    
+    const settle = await oracle.estimate(trade);
+    const withApproval = await oracle.estimate({ ...trade, gas_operations: ['approval', 'order_settlement'] });
+    
+    expect(settle.breakdown.gas_fee).toBeCloseTo(0.01);
+    expect(settle.gas).toMatchObject({ operations: ['order_settlement'], gas_units: 150000, source: 'schedule', paid_by: 'trader' });
+    expect(withApproval.gas?.gas_units).toBe(200000);
+    expect(withApproval.breakdown.gas_fee).toBeCloseTo(0.01 * 200000 / 150000);
+  });
+  
+  it('should charge no gas on relayed orders', async () => {
+    const estimate = await createOracle().estimate({ ...trade, relayer: true });
+    
+    expect(estimate.breakdown.gas_fee).toBe(0);
+    expect(estimate.gas?.paid_by).toBe('relayer');
+  });
+  
+  it('should price gas from a live feed', async () => {
+    const gasPriceSource = vi.fn(async () => 100);
+    const nativeUsdSource = vi.fn(async () => 0.5);
+    const oracle = createOracle({ gasPriceFeed: new GasPriceFeed({ gasPriceSource, nativeUsdSource }) });
+    
+    const estimate = await oracle.estimate(trade);
+    await oracle.estimate(trade);
+    
+    // 150k units × 100 gwei × $0.50
+    expect(estimate.breakdown.gas_fee).toBeCloseTo(0.0075);
+    expect(estimate.gas).toMatchObject({ source: 'live', gas_price_gwei: 100, native_usd: 0.5 });
+    expect(gasPriceSource).toHaveBeenCalledTimes(1);
+    expect(nativeUsdSource).toHaveBeenCalledTimes(1);
+  });
+  
+  it('should fall back to the schedule when the feed fails', async () => {
+    const oracle = createOracle({
+      gasPriceFeed: new GasPriceFeed({
+        gasPriceSource: async () => { throw new Error('rpc down'); },
+        nativeUsdSource: async () => 0.5,
+      }),
+    });
+    
+    const estimate = await oracle.estimate(trade);
+    
+    expect(estimate.gas?.source).toBe('schedule');
+    expect(estimate.breakdown.gas_fee).toBeCloseTo(0.01);
+  });
+  
+  it('should fall back to the schedule when the feed hangs', async () => {
+    const oracle = createOracle({
+      gasPriceFeed: new GasPriceFeed({
+        gasPriceSource: () => new Promise<number>(() => undefined),
+        nativeUsdSource: async () => 0.5,
+        timeoutMs: 20,
+      }),
+    });
+    
+    const estimate = await oracle.estimate(trade);
+    
+    expect(estimate.gas?.source).toBe('schedule');
+  });
+  
+  it('should reject failed quotes with typed errors', async () => {
+    const down = new Error('rpc down');
+    const failing = new GasPriceFeed({ gasPriceSource: async () => { throw down; }, nativeUsdSource: async () => 0.5 });
+    const hanging = new GasPriceFeed({
+      gasPriceSource: () => new Promise<number>(() => undefined),
+      nativeUsdSource: async () => 0.5,
+      timeoutMs: 20,
+    });
+    const invalid = new GasPriceFeed({ gasPriceSource: async () => 0, nativeUsdSource: async () => 0.5 });
+    
+    await expect(failing.quote()).rejects.toMatchObject({ code: 'GAS_PRICE_UNAVAILABLE', cause: down });
+    await expect(hanging.quote()).rejects.toBeInstanceOf(GasPriceTimeoutError);
+    await expect(hanging.quote()).rejects.toMatchObject({ code: 'UPSTREAM_TIMEOUT', timeout_ms: 20 });
+    await expect(invalid.quote()).rejects.toBeInstanceOf(GasPriceUnavailableError);
+    
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('down', { status: 503, statusText: 'Service Unavailable' })));
+    await expect(jsonRpcGasPriceSource('https://polygon-rpc.example')()).rejects.toBeInstanceOf(GasPriceUnavailableError);
+    await expect(coinGeckoPolUsdSource()()).rejects.toBeInstanceOf(GasPriceUnavailableError);
+  });
+  
+  it('should read eth_gasPrice from a JSON-RPC endpoint', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({ jsonrpc: '2.0', id: 1, result: '0x6fc23ac00' })));
+    vi.stubGlobal('fetch', fetchMock);
+    
+    const gwei = await jsonRpcGasPriceSource('https://polygon-rpc.example')();
+    
+    expect(gwei).toBe(30);
+    expect(JSON.parse(String(fetchMock.mock.calls[0]![1]!.body))).toMatchObject({ method: 'eth_gasPrice' });
+  });
+  
+  it('should read the POL price from CoinGecko', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ 'polygon-ecosystem-token': { usd: 0.21 } }))));
+    
+    expect(await coinGeckoPolUsdSource()()).toBe(0.21);
+  });
+  
+  it('should reject unknown gas operations', async () => {
+    await expect(createOracle().estimate({ ...trade, gas_operations: ['bridge' as never] }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'gas_operations' });
+  });
+});
+
+describe('Polymarket maker rebates', () => {
+  const order = { venue: 'POLYMARKET' as const, market_id: '0xabc', size_usd: 1000, price: 0.5, order_type: 'LIMIT' as const };
+  const shortCrypto = (extra: Partial<MarketMetadata> = {}) => createOracle({
+    marketMetadataProvider: async () => ({ venue: 'POLYMARKET', market_id: '0xabc', tags: ['Crypto', '15M'], ...extra }),
+  });
+  
+  it('should report the expected daily rebate without netting it against the fee', async () => {
+    const estimate = await shortCrypto().estimate({
+      ...order,
+      maker_rebate: { taker_volume_usd: 200_000, liquidity_share: 0.05 },
+    });
+    
+    // Pool: $200k × 50 bps = $1000; 5% of it, per day
+    expect(estimate.maker_rebate).toMatchObject({ pool_usd: 1000, liquidity_share: 0.05, expected_daily_rebate_usd: 50 });
+    expect(estimate.breakdown.rebate).toBe(0);
+    expect(estimate.total_fee_usd).toBeGreaterThanOrEqual(0);
+    expect(estimate.confidence).toBe('high');
+  });
+  
+  it('should keep the daily rebate out of trading cost', async () => {
+    const cost = await shortCrypto().estimateCost({
+      ...order,
+      maker_rebate: { taker_volume_usd: 200_000, liquidity_share: 0.05 },
+    });
+    
+    expect(cost.maker_rebate?.expected_daily_rebate_usd).toBeCloseTo(50);
+    expect(cost.breakdown.rebate).toBe(0);
+    expect(cost.explicit_cost_usd).toBeGreaterThanOrEqual(0);
+  });
+  
+  it('should take volume and liquidity from market metadata', async () => {
+    const estimate = await shortCrypto({ volume_24h_usd: 200_000, liquidity_usd: 19_000 }).estimate(order);
+    
+    // $1000 of $20000 resting liquidity
+    expect(estimate.maker_rebate?.liquidity_share).toBeCloseTo(0.05);
+    expect(estimate.maker_rebate?.expected_daily_rebate_usd).toBeCloseTo(50);
+  });
+  
+  it('should refresh cached metadata after maxAgeMs', async () => {
+    let volume = 200_000;
+    const provider = vi.fn(async () => ({
+      venue: 'POLYMARKET' as const, market_id: '0xabc', tags: ['Crypto', '15M'], volume_24h_usd: volume, liquidity_usd: 19_000,
+    }));
+    const cached = createOracle({ marketMetadataProvider: provider });
+    await cached.estimate(order);
+    volume = 400_000;
+    expect((await cached.estimate(order)).maker_rebate?.expected_daily_rebate_usd).toBeCloseTo(50);
+    expect(provider).toHaveBeenCalledTimes(1);
+    
+    const fresh = createOracle({ marketMetadataProvider: provider, marketMetadataCache: { maxAgeMs: 0 } });
+    expect((await fresh.estimate(order)).maker_rebate?.expected_daily_rebate_usd).toBeCloseTo(100);
+    
+    // One entry kept: a second market evicts the first
+    const small = createOracle({ marketMetadataProvider: provider, marketMetadataCache: { maxEntries: 1 } });
+    await small.estimate(order);
+    await small.estimate({ ...order, market_id: '0xdef' });
+    await small.estimate(order);
+    expect(provider).toHaveBeenCalledTimes(5);
+  });
+  
+  it('should not estimate without volume or liquidity inputs', async () => {
+    const estimate = await shortCrypto().estimate(order);
+    
+    expect(estimate.maker_rebate).toBeUndefined();
+    expect(estimate.breakdown.rebate).toBe(0);
+    expect(estimate.assumptions.some(a => a.includes('not estimated'))).toBe(true);
+  });
+  
+  it('should only pay on eligible markets and maker orders', async () => {
+    const inputs = { maker_rebate: { taker_volume_usd: 200_000, liquidity_share: 0.05 } };
+    
+    const standard = await createOracle().estimate({ ...order, ...inputs });
+    const taker = await shortCrypto().estimate({ ...order, ...inputs, order_type: 'MARKET' });
+    
+    expect(standard.maker_rebate).toBeUndefined();
+    expect(taker.maker_rebate).toBeUndefined();
+  });
+  
+  it('should reject a liquidity share outside 0-1', async () => {
+    await expect(createOracle().estimate({ ...order, maker_rebate: { liquidity_share: 1.5 } }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'maker_rebate.liquidity_share' });
+  });
+});
+
+describe('Funding costs', () => {
+  let oracle: FeeOracle;
+  
+  beforeEach(() => {
+    oracle = createOracle();
+  });
+  
+  it('should price deposits and withdrawals per method', async () => {
+    const kalshi = await oracle.estimateFundingCost('KALSHI', 1000, { deposit_method: 'ach', withdrawal_method: 'wire' });
+    const onramp = await oracle.estimateFundingCost('POLYMARKET', 1000, { deposit_method: 'card_onramp', redeem: false });
+    const small = await oracle.estimateFundingCost('POLYMARKET', 10, { deposit_method: 'card_onramp', redeem: false });
+    
+    expect(kalshi).toMatchObject({ deposit_fee_usd: 0, withdrawal_fee_usd: 25, redeem_fee_usd: 0, total_usd: 25 });
+    expect(onramp.total_usd).toBeCloseTo(25); // 2.5%
+    expect(small.total_usd).toBe(1); // $1 minimum
+  });
+  
+  it('should include Polymarket redeem gas by default', async () => {
+    const cost = await oracle.estimateFundingCost('POLYMARKET', 1000, { deposit_method: 'usdc_polygon' });
+    const polymarket = oracle.getCalculator('POLYMARKET') as PolymarketFeeCalculator;
+    
+    expect(cost.redeem_fee_usd).toBeGreaterThan(0);
+    expect(cost.redeem_fee_usd).toBeCloseTo(polymarket.estimateOperationGas(['redeem']).cost_usd, 8);
+    expect(cost.total_usd).toBeCloseTo(cost.redeem_fee_usd);
+  });
+  
+  it('should price redeem gas from the live gas feed', async () => {
+    const live = createOracle({
+      gasPriceFeed: new GasPriceFeed({ gasPriceSource: async () => 300, nativeUsdSource: async () => 0.5 }),
+    });
+    
+    const cost = await live.estimateFundingCost('POLYMARKET', 1000, { deposit_method: 'usdc_polygon' });
+    const scheduled = await oracle.estimateFundingCost('POLYMARKET', 1000, { deposit_method: 'usdc_polygon' });
+    
+    // 100k redeem units × 300 gwei × $0.50
+    expect(cost.redeem_fee_usd).toBeCloseTo(0.015);
+    expect(cost.redeem_fee_usd).not.toBeCloseTo(scheduled.redeem_fee_usd, 4);
+  });
+  
+  it('should reject unknown methods', async () => {
+    await expect(oracle.estimateFundingCost('KALSHI', 1000, { deposit_method: 'paypal' }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS', field: 'deposit_method' });
+    expect(oracle.getFundingCalculator().methods('KALSHI', 'withdrawal')).toContain('ach');
+  });
+  
+  it('should report arbitrage profit after funding', async () => {
+    const legs = [
+      { venue: 'KALSHI' as const, direction: 'BUY' as const, size_usd: 1000, price: 0.42 },
+      { venue: 'POLYMARKET' as const, direction: 'SELL' as const, size_usd: 1000, price: 0.48 },
+    ];
+    
+    const trading = await oracle.analyzeArbitrage(legs, 60, 0.5, false);
+    const funded = await oracle.analyzeArbitrage(legs, 60, 0.5, false, {
+      funding: { KALSHI: { deposit_method: 'ach', withdrawal_method: 'wire' } },
+    });
+    
+    expect(trading.funding_costs).toBeUndefined();
+    expect(trading.is_profitable).toBe(true);
+    expect(funded.funding_costs).toHaveLength(1);
+    expect(funded.funding_costs![0]).toMatchObject({ venue: 'KALSHI', amount_usd: 1000, total_usd: 25 });
+    expect(funded.net_profit_usd).toBeCloseTo(trading.net_profit_usd);
+    expect(funded.net_profit_after_funding_usd).toBeCloseTo(trading.net_profit_usd - 25);
+    expect(funded.net_profit_pct).toBeLessThan(trading.net_profit_pct);
+  });
+  
+  it('should fund a sold leg with its collateral in both analyses', async () => {
+    const legs = [
+      { venue: 'KALSHI' as const, direction: 'BUY' as const, outcome: 'YES' as const, price: 0.42, size_contracts: 1000 },
+      { venue: 'POLYMARKET' as const, direction: 'SELL' as const, outcome: 'YES' as const, price: 0.48, size_contracts: 1000 },
+    ];
+    const funding = { POLYMARKET: { deposit_method: 'card_onramp', redeem: false } };
+    
+    const multi = await oracle.analyzeArbitrage(legs, 60, 0.5, false, { funding });
+    const binary = await oracle.analyzeBinaryArbitrage(legs, 0.5, false, { funding });
+    
+    expect(multi.funding_costs![0]!.amount_usd).toBeCloseTo(520); // 1000 × (1 - 0.48)
+    expect(binary.funding_costs![0]!.amount_usd).toBeCloseTo(multi.funding_costs![0]!.amount_usd);
+  });
+  
+  it('should size binary arbitrage funding by the capital each venue needs', async () => {
+    const analysis = await oracle.analyzeBinaryArbitrage([
+      { venue: 'KALSHI', direction: 'BUY', outcome: 'YES', price: 0.42, size_contracts: 1000 },
+      { venue: 'POLYMARKET', direction: 'BUY', outcome: 'NO', price: 0.5, size_contracts: 1000 },
+    ], 0.5, false, { funding: { POLYMARKET: { deposit_method: 'card_onramp', redeem: false } } });
+    
+    expect(analysis.funding_costs![0]).toMatchObject({ venue: 'POLYMARKET', amount_usd: 500 });
+    expect(analysis.funding_costs![0]!.total_usd).toBeCloseTo(12.5);
+    expect(analysis.net_profit_after_funding_usd).toBeCloseTo(analysis.net_profit_usd - 12.5);
+  });
+  
+  it('should keep cost budgets with a settlement fee', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      market: 'm', asset_id: 'tok', timestamp: '2026-01-15T12:00:00.000Z',
+      bids: [{ price: '0.49', size: '10000' }], asks: [{ price: '0.51', size: '2000' }, { price: '0.53', size: '10000' }],
+    }))));
+    oracle.setReplayLabsClient(new ReplayLabsClient({ apiKey: 'settle-key', rateLimit: false }));
+    oracle.addScheduleVersion('POLYMARKET', {
+      ...polymarketSchedule,
+      version: '1.1.0',
+      effective_from: '2026-02-01T00:00:00Z',
+      settlement_fee: { enabled: true, fee_bps: 100 },
+    });
+    
+    const sized = await oracle.maxSizeForCost('POLYMARKET', 'tok', 'BUY', { max_cost_usd: 30 });
+    expect(sized.cost!.breakdown.settlement_fee).toBeGreaterThan(0);
+    expect(sized.cost!.total_cost_usd).toBeLessThanOrEqual(30 + 0.01);
+    
+    const route = await oracle.routeOrder({ markets: [{ venue: 'POLYMARKET', token_id: 'tok' }], side: 'BUY', size_usd: 1000 });
+    const cost = route.allocations[0]!.cost!;
+    // Per-contract price the router compared includes the settlement fee
+    expect(route.blended.average_price * cost.size_contracts).toBeCloseTo(cost.notional_usd + cost.explicit_cost_usd, 1);
+  });
+  
+  it('should charge an enabled Polymarket settlement fee', async () => {
+    const calculator = new PolymarketFeeCalculator();
+    calculator.addScheduleVersion({
+      ...polymarketSchedule,
+      version: '1.1.0',
+      effective_from: '2026-02-01T00:00:00Z',
+      settlement_fee: { enabled: true, fee_bps: 10 },
+    });
+    
+    const estimate = await calculator.estimate({
+      venue: 'POLYMARKET', size_usd: 1000, price: 0.5, order_type: 'MARKET', as_of: '2026-03-01T00:00:00Z',
+    });
+    
+    expect(estimate.breakdown.settlement_fee).toBeCloseTo(1);
+  });
+});
+
 describe('KalshiFeeCalculator', () => {
   let calculator: KalshiFeeCalculator;
   
@@ -170,6 +2135,29 @@ describe('KalshiFeeCalculator', () => {
     expect(maker.breakdown.exchange_fee).toBe(0);
   });
   
+  it('should charge maker fees on sports/macro series', async () => {
+    const maker = await calculator.estimate({
+      venue: 'KALSHI',
+      size_usd: 1000,
+      price: 0.50,
+      order_type: 'LIMIT',
+      market_id: 'KXSB-26-SEA',
+    });
+    
+    // 0.0175 × 2000 × 0.50 × 0.50 = $8.75
+    expect(maker.breakdown.exchange_fee).toBeCloseTo(8.75, 2);
+  });
+  
+  it('should classify markets by series ticker or category', () => {
+    expect(calculator.classifyMarket('KXFED-26MAR-T4.25')).toMatchObject({
+      series_ticker: 'KXFED',
+      maker_fee_applies: true,
+      matched_by: 'series',
+    });
+    expect(calculator.classifyMarket('KXHIGHNY-26MAR01', 'Sports').matched_by).toBe('category');
+    expect(calculator.classifyMarket('KXHIGHNY-26MAR01').maker_fee_applies).toBe(false);
+  });
+  
   it('should calculate correctly with explicit contract count', async () => {
     // 100 contracts at $0.50, taker
     // Fee = 0.07 × 100 × 0.50 × 0.50 = $1.75
@@ -219,6 +2207,62 @@ describe('PolymarketFeeCalculator', () => {
   });
 });
 
+describe('FormulaFeeCalculator', () => {
+  const definition = {
+    venue: 'POLYMARKET',
+    version: '2.0.0',
+    updated_at: '2026-06-01T00:00:00Z',
+    source: 'test',
+    source_url: 'https://example.com/fees',
+    disclaimer: 'test schedule',
+    fee_rules: {
+      taker: { type: 'bps_of_notional', bps: 20 },
+      maker: { type: 'per_contract', fee_per_contract_usd: 0.001 },
+      min_fee_usd: 0.05,
+      max_fee_usd: 5,
+    },
+  };
+  
+  it('should evaluate rules declared in the schedule', async () => {
+    const calculator = new FormulaFeeCalculator(definition);
+    
+    const taker = await calculator.estimate({ venue: 'POLYMARKET', size_usd: 1000, order_type: 'MARKET' });
+    expect(taker.breakdown.exchange_fee).toBeCloseTo(2, 4);
+    
+    // 2000 contracts × $0.001 = $2
+    const maker = await calculator.estimate({ venue: 'POLYMARKET', size_usd: 1000, price: 0.5, order_type: 'LIMIT' });
+    expect(maker.breakdown.exchange_fee).toBeCloseTo(2, 4);
+  });
+  
+  it('should apply min/max caps', async () => {
+    const calculator = new FormulaFeeCalculator(definition);
+    
+    const small = await calculator.estimate({ venue: 'POLYMARKET', size_usd: 10, order_type: 'MARKET' });
+    expect(small.breakdown.exchange_fee).toBe(0.05);
+    
+    const large = await calculator.estimate({ venue: 'POLYMARKET', size_usd: 100_000, order_type: 'MARKET' });
+    expect(large.breakdown.exchange_fee).toBe(5);
+  });
+  
+  it('should reject malformed schedules', () => {
+    const broken = { ...definition, fee_rules: { taker: { type: 'bps_of_notional' }, maker: { type: 'flat' } } };
+    
+    expect(validateScheduleDefinition(broken)).toEqual([
+      'fee_rules.taker.bps: must be a non-negative number',
+      'fee_rules.maker.type: must be one of bps_of_notional, probability_coefficient, per_contract',
+    ]);
+    expect(() => new FormulaFeeCalculator(broken)).toThrow('Invalid fee schedule definition');
+  });
+  
+  it('should replace a built-in venue calculator on the oracle', async () => {
+    const oracle = createOracle();
+    oracle.registerCalculator(new FormulaFeeCalculator(definition));
+    
+    const estimate = await oracle.estimate({ venue: 'POLYMARKET', size_usd: 1000, order_type: 'MARKET' });
+    expect(estimate.breakdown.exchange_fee).toBeCloseTo(2, 4);
+  });
+});
+
 describe('HyperliquidFeeCalculator', () => {
   it('should use base tier for new users', async () => {
     const calculator = new HyperliquidFeeCalculator();
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { once } from 'node:events';
+import {
+  createOracle,
+  ArbitrageScanner,
+  type ArbitrageOpportunityEvent,
+  type ScanFailure,
+  type WatchedPair,
+} from '../src';
+
+// Buy YES on Kalshi + buy NO on Polymarket: 1000 contracts pay $1 either way
+const pair = (noPrice: number): WatchedPair => ({
+  id: 'sb-sea',
+  legs: [
+    { venue: 'KALSHI', market_id: 'KXSB-26-SEA', direction: 'BUY', outcome: 'YES', price: 0.42, size_contracts: 1000 },
+    { venue: 'POLYMARKET', token_id: 'no-tok', direction: 'BUY', outcome: 'NO', price: noPrice, size_contracts: 1000 },
+  ],
+});
+
+function record(scanner: ArbitrageScanner) {
+  const events: { type: string; event: ArbitrageOpportunityEvent }[] = [];
+  for (const type of ['opened', 'changed', 'closed']) {
+    scanner.on(type, (event: ArbitrageOpportunityEvent) => events.push({ type, event }));
+  }
+  return events;
+}
+
+describe('ArbitrageScanner', () => {
+  let scanner: ArbitrageScanner;
+
+  beforeEach(() => {
+    scanner = new ArbitrageScanner(createOracle(), { minChangeIntervalMs: 0 });
+  });
+
+  afterEach(async () => {
+    await scanner.stop();
+  });
+
+  it('should open once and ignore unchanged rescans', async () => {
+    const events = record(scanner);
+    scanner.watch(pair(0.5));
+
+    await scanner.scanOnce();
+    await scanner.scanOnce();
+
+    expect(events.map(e => e.type)).toEqual(['opened']);
+    expect(events[0]!.event.pair_id).toBe('sb-sea');
+    expect(events[0]!.event.analysis.gross_profit_usd).toBeCloseTo(80);
+    expect(scanner.getOpenOpportunities()).toEqual(['sb-sea']);
+  });
+
+  it('should not close on a single flicker', async () => {
+    const events = record(scanner);
+    scanner.watch(pair(0.5));
+    await scanner.scanOnce();
+
+    scanner.watch(pair(0.6));
+    await scanner.scanOnce();
+    scanner.watch(pair(0.5));
+    await scanner.scanOnce();
+    expect(events.map(e => e.type)).toEqual(['opened']);
+
+    // Two unprofitable scans in a row close it
+    scanner.watch(pair(0.6));
+    await scanner.scanOnce();
+    await scanner.scanOnce();
+    expect(events.map(e => e.type)).toEqual(['opened', 'closed']);
+    expect(events[1]!.event.analysis.is_profitable).toBe(false);
+    expect(events[1]!.event.opened_at).toBe(events[0]!.event.opened_at);
+    expect(scanner.getOpenOpportunities()).toEqual([]);
+  });
+
+  it('should report moves above the change threshold', async () => {
+    const events = record(scanner);
+    scanner.watch(pair(0.5));
+    await scanner.scanOnce();
+
+    scanner.watch(pair(0.4995)); // +$0.50: below the $1 threshold
+    await scanner.scanOnce();
+    scanner.watch(pair(0.48)); // +$20
+    await scanner.scanOnce();
+
+    expect(events.map(e => e.type)).toEqual(['opened', 'changed']);
+    const changed = events[1]!.event;
+    expect(changed.analysis.gross_profit_usd).toBeCloseTo(100);
+    expect(changed.previous_net_profit_usd).toBeCloseTo(events[0]!.event.analysis.net_profit_usd);
+  });
+
+  it('should rate limit changes per pair', async () => {
+    scanner = new ArbitrageScanner(createOracle(), { minChangeIntervalMs: 60_000 });
+    const events = record(scanner);
+    scanner.watch(pair(0.5));
+    await scanner.scanOnce();
+
+    scanner.watch(pair(0.48));
+    await scanner.scanOnce();
+    scanner.watch(pair(0.46));
+    await scanner.scanOnce();
+
+    expect(events.map(e => e.type)).toEqual(['opened']);
+  });
+
+  it('should report failing pairs without dropping them', async () => {
+    const failures: ScanFailure[] = [];
+    scanner.on('scan_error', (failure: ScanFailure) => failures.push(failure));
+    const broken = pair(0.5);
+    scanner.watch({ ...broken, id: 'broken', legs: [broken.legs[0]!, { ...broken.legs[1]!, price: undefined }] });
+
+    const summary = await scanner.scanOnce();
+
+    expect(summary.failed).toBe(1);
+    expect(failures[0]!.pair_id).toBe('broken');
+    expect(failures[0]!.error).toMatchObject({ code: 'INVALID_PARAMS' });
+    expect(scanner.getWatchlist()).toHaveLength(1);
+  });
+
+  it('should use the given gross profit when a pair has one', async () => {
+    const events = record(scanner);
+    scanner.watch({ ...pair(0.6), gross_profit_usd: 80 });
+
+    await scanner.scanOnce();
+
+    expect(events.map(e => e.type)).toEqual(['opened']);
+    expect(events[0]!.event.analysis.gross_profit_usd).toBe(80);
+  });
+
+  it('should close an open opportunity when its pair is unwatched', async () => {
+    const events = record(scanner);
+    scanner.watch(pair(0.5));
+    await scanner.scanOnce();
+
+    scanner.unwatch('sb-sea');
+
+    expect(events.map(e => e.type)).toEqual(['opened', 'closed']);
+    expect(scanner.getWatchlist()).toEqual([]);
+  });
+
+  it('should scan on an interval until stopped', async () => {
+    scanner = new ArbitrageScanner(createOracle(), { intervalMs: 10 });
+    scanner.watch(pair(0.5));
+    let scans = 0;
+    scanner.on('scan', () => scans++);
+
+    scanner.start();
+    await once(scanner, 'scan');
+    await once(scanner, 'scan');
+    await scanner.stop();
+    const stoppedAt = scans;
+    await new Promise(r => setTimeout(r, 30));
+
+    expect(stoppedAt).toBeGreaterThanOrEqual(2);
+    expect(scans).toBe(stoppedAt);
+  });
+});
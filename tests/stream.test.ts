@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { once } from 'node:events';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { AddressInfo } from 'node:net';
+import {
+  CostOracle,
+  OrderbookStream,
+  OrderbookStreamError,
+  OrderbookUnavailableError,
+  ReplayLabsClient,
+  StaleDataError,
+  type StreamSocket,
+} from '../src';
+
+const wsFactory = (url: string): StreamSocket => new WebSocket(url);
+
+/**
+ * Local stand-in for the Replay Labs stream: records client messages and
+ * lets each test push snapshots/deltas by hand.
+ */
+class FakeStreamServer {
+  server!: WebSocketServer;
+  url = '';
+  received: Record<string, unknown>[] = [];
+  clients: WebSocket[] = [];
+
+  async start(): Promise<void> {
+    this.server = new WebSocketServer({ port: 0 });
+    await once(this.server, 'listening');
+    this.url = `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    this.server.on('connection', socket => {
+      this.clients.push(socket);
+      socket.on('message', data => {
+        this.received.push(JSON.parse(String(data)));
+      });
+    });
+  }
+
+  broadcast(message: Record<string, unknown>): void {
+    for (const client of this.clients) {
+      if (client.readyState === WebSocket.OPEN) client.send(JSON.stringify(message));
+    }
+  }
+
+  async waitForMessage(predicate: (m: Record<string, unknown>) => boolean): Promise<void> {
+    for (let i = 0; i < 200; i++) {
+      if (this.received.some(predicate)) return;
+      await new Promise(r => setTimeout(r, 10));
+    }
+    throw new Error('Timed out waiting for client message');
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.clients) client.terminate();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const snapshot = (seq: number) => ({
+  type: 'snapshot',
+  venue: 'KALSHI',
+  market_id: 'KXSB-26-SEA',
+  seq,
+  timestamp: '2026-01-15T12:00:00.000Z',
+  bids: [[0.48, 1000], [0.47, 2000]],
+  asks: [[0.52, 1000], [0.53, 2000]],
+});
+
+const delta = (seq: number, changes: { side: 'BID' | 'ASK'; price: number; size: number }[]) => ({
+  type: 'delta',
+  venue: 'KALSHI',
+  market_id: 'KXSB-26-SEA',
+  seq,
+  timestamp: '2026-01-15T12:00:01.000Z',
+  changes,
+});
+
+describe('Orderbook stream', () => {
+  let server: FakeStreamServer;
+  let stream: OrderbookStream;
+
+  beforeEach(async () => {
+    server = new FakeStreamServer();
+    await server.start();
+    stream = new OrderbookStream({
+      url: server.url,
+      apiKey: 'test-key',
+      webSocketFactory: wsFactory,
+      reconnectBaseDelayMs: 10,
+    });
+  });
+
+  afterEach(async () => {
+    stream.close();
+    await server.stop();
+    vi.unstubAllGlobals();
+  });
+
+  it('authenticates, subscribes and resolves with the first snapshot', async () => {
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast(snapshot(1));
+
+    const book = await pending;
+
+    expect(server.received[0]).toEqual({ type: 'auth', api_key: 'test-key' });
+    expect(server.received[1]).toEqual({ type: 'subscribe', venue: 'KALSHI', market_id: 'KXSB-26-SEA' });
+    expect(book.best_bid).toBe(0.48);
+    expect(book.best_ask).toBe(0.52);
+    expect(book.timestamp).toBe('2026-01-15T12:00:00.000Z');
+    expect(stream.getBook('KALSHI', 'KXSB-26-SEA')?.seq).toBe(1);
+  });
+
+  it('applies deltas in sequence and removes zero-size levels', async () => {
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast(snapshot(1));
+    await pending;
+
+    server.broadcast(delta(2, [
+      { side: 'BID', price: 0.49, size: 500 },
+      { side: 'ASK', price: 0.52, size: 0 },
+    ]));
+    await once(stream, 'update');
+
+    const book = stream.getBook('KALSHI', 'KXSB-26-SEA')!;
+    expect(book.seq).toBe(2);
+    expect(book.snapshot.best_bid).toBe(0.49);
+    expect(book.snapshot.best_ask).toBe(0.53);
+    expect(book.snapshot.levels.filter(l => l.side === 'BID')).toHaveLength(3);
+    expect(book.snapshot.levels.filter(l => l.side === 'ASK')).toHaveLength(1);
+  });
+
+  it('detects a sequence gap, stops serving the book and resyncs', async () => {
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast(snapshot(1));
+    await pending;
+
+    const gap = once(stream, 'gap');
+    server.broadcast(delta(3, [{ side: 'BID', price: 0.49, size: 500 }]));
+    const [event] = await gap;
+
+    expect(event).toMatchObject({ expected_seq: 2, received_seq: 3 });
+    expect(stream.getBook('KALSHI', 'KXSB-26-SEA')).toBeUndefined();
+
+    // The client asks for a fresh snapshot
+    await server.waitForMessage(m => m.type === 'subscribe' && server.received.filter(r => r.type === 'subscribe').length === 2);
+    server.broadcast(snapshot(10));
+    await once(stream, 'snapshot');
+
+    expect(stream.getBook('KALSHI', 'KXSB-26-SEA')?.seq).toBe(10);
+  });
+
+  it('ignores duplicate deltas', async () => {
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast(snapshot(5));
+    await pending;
+
+    server.broadcast(delta(5, [{ side: 'BID', price: 0.1, size: 1 }]));
+    server.broadcast(delta(6, [{ side: 'BID', price: 0.49, size: 500 }]));
+    await once(stream, 'update');
+
+    const book = stream.getBook('KALSHI', 'KXSB-26-SEA')!;
+    expect(book.seq).toBe(6);
+    expect(book.snapshot.levels.some(l => l.price === 0.1)).toBe(false);
+  });
+
+  it('reconnects and resubscribes after the connection drops', async () => {
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast(snapshot(1));
+    await pending;
+
+    const closed = once(stream, 'close');
+    server.clients[0]!.terminate();
+    await closed;
+    expect(stream.getBook('KALSHI', 'KXSB-26-SEA')).toBeUndefined();
+
+    await once(stream, 'open');
+    await server.waitForMessage(m => m.type === 'subscribe' && server.received.filter(r => r.type === 'subscribe').length === 2);
+    server.broadcast(snapshot(1));
+    await once(stream, 'snapshot');
+
+    expect(server.received.filter(m => m.type === 'auth')).toHaveLength(2);
+    expect(stream.getBook('KALSHI', 'KXSB-26-SEA')?.seq).toBe(1);
+  });
+
+  it('rejects pending subscribes on server errors and on close', async () => {
+    const failing = stream.subscribe('KALSHI', 'UNKNOWN');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast({ type: 'error', message: 'unknown market', venue: 'KALSHI', market_id: 'UNKNOWN' });
+    await expect(failing).rejects.toThrow('unknown market');
+    expect(stream.getSubscriptions()).toEqual([]);
+
+    const unsubscribed = stream.subscribe('KALSHI', 'KXOTHER');
+    stream.unsubscribe('KALSHI', 'KXOTHER');
+    await expect(unsubscribed).rejects.toBeInstanceOf(OrderbookUnavailableError);
+
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    stream.close();
+    await expect(pending).rejects.toThrow('Orderbook stream closed');
+    await expect(pending).rejects.toMatchObject({ code: 'STREAM_ERROR', url: server.url });
+  });
+
+  it('stops tracking books that never synced when the connection fails', async () => {
+    // Nothing listens on port 1
+    const down = new OrderbookStream({ url: 'ws://127.0.0.1:1', webSocketFactory: wsFactory, reconnect: false });
+
+    await expect(down.subscribe('KALSHI', 'KXSB-26-SEA')).rejects.toBeInstanceOf(OrderbookStreamError);
+    expect(down.getSubscriptions()).toEqual([]);
+    down.close();
+  });
+
+  it('lets CostOracle.estimateCost read the local book without a request', async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new Error('should not fetch');
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast(snapshot(1));
+    await pending;
+
+    const oracle = new CostOracle({ replayLabsApiKey: 'test-key', orderbookStream: stream });
+    const cost = await oracle.estimateCost({
+      venue: 'KALSHI',
+      size_usd: 100,
+      price: 0.5,
+      side: 'BUY',
+      market_id: 'KXSB-26-SEA',
+    });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(cost.confidence).toBe('high');
+    expect(cost.orderbook_snapshot?.best_ask).toBe(0.52);
+    expect(cost.assumptions.some(a => a.startsWith('Streaming orderbook (seq 1'))).toBe(true);
+  });
+
+  it('raises StaleDataError in strict mode when the only book is too old', async () => {
+    const pending = stream.subscribe('KALSHI', 'KXSB-26-SEA');
+    await server.waitForMessage(m => m.type === 'subscribe');
+    server.broadcast(snapshot(1));
+    await pending;
+    await new Promise(r => setTimeout(r, 20));
+
+    const oracle = new CostOracle({ orderbookStream: stream, strict: true });
+    const params = { venue: 'KALSHI' as const, size_usd: 10, market_id: 'KXSB-26-SEA', max_book_age_ms: 5 };
+
+    await expect(oracle.estimateCost(params)).rejects.toBeInstanceOf(StaleDataError);
+
+    const lenient = await oracle.estimateCost({ ...params, strict: false });
+    expect(lenient.confidence).toBe('high');
+    expect(lenient.assumptions.some(a => a.includes('older than max_book_age_ms'))).toBe(true);
+  });
+
+  it('falls back to the cache for markets that are not streamed', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      market: 'm',
+      asset_id: 'token-1',
+      timestamp: '2026-01-15T12:00:00.000Z',
+      bids: [{ price: '0.40', size: '100' }],
+      asks: [{ price: '0.60', size: '100' }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const oracle = new CostOracle({ replayLabsApiKey: 'test-key', orderbookStream: stream });
+    const cost = await oracle.estimateCost({
+      venue: 'POLYMARKET',
+      size_usd: 10,
+      price: 0.5,
+      side: 'BUY',
+      token_id: 'token-1',
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cost.orderbook_snapshot?.best_ask).toBe(0.6);
+  });
+});
+
+describe('ReplayLabsClient.stream', () => {
+  it('derives the WebSocket URL from the base URL and shares one stream', () => {
+    const urls: string[] = [];
+    const client = new ReplayLabsClient({
+      apiKey: 'stream-url-key',
+      baseUrl: 'https://example.test',
+      webSocketFactory: url => {
+        urls.push(url);
+        return { send() {}, close() {}, addEventListener() {} };
+      },
+    });
+
+    const stream = client.stream();
+    void stream.connect().catch(() => {});
+
+    expect(client.stream()).toBe(stream);
+    expect(urls).toEqual(['wss://example.test/api/stream/orderbook']);
+
+    stream.close();
+    expect(client.stream()).not.toBe(stream);
+  });
+});